@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { initFastRPC, createQueryCache } from "../index";
+import { z } from "zod";
+
+describe("Caching", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const t = initFastRPC.create();
+
+  const get = (router: { handle(req: Request): Promise<Response> }, path: string, headers?: HeadersInit) =>
+    router.handle(new Request(`http://localhost/${path}`, { headers }));
+
+  it("should set Cache-Control from the procedure's cache meta", async () => {
+    const appRouter = t.router({
+      listUsers: t.procedure.meta({ cache: { maxAge: 60, staleWhileRevalidate: 30 } }).query(() => ["alice"]),
+      me: t.procedure.meta({ cache: { maxAge: 10, private: true } }).query(() => "alice"),
+      plain: t.procedure.query(() => "plain"),
+    });
+
+    const list = await get(appRouter, "listUsers");
+    const me = await get(appRouter, "me");
+    const plain = await get(appRouter, "plain");
+
+    expect(list.headers.get("Cache-Control")).toBe("public, max-age=60, stale-while-revalidate=30");
+    expect(me.headers.get("Cache-Control")).toBe("private, max-age=10");
+    expect(plain.headers.get("Cache-Control")).toBeNull();
+  });
+
+  it("should answer 304 when If-None-Match matches the ETag", async () => {
+    let users = ["alice"];
+    const appRouter = t.router({
+      listUsers: t.procedure.meta({ cache: { maxAge: 60 } }).query(() => users),
+    });
+
+    const first = await get(appRouter, "listUsers");
+    const etag = first.headers.get("ETag")!;
+    const revalidated = await get(appRouter, "listUsers", { "If-None-Match": `W/"other", ${etag}` });
+    users = ["alice", "bob"];
+    const changed = await get(appRouter, "listUsers", { "If-None-Match": etag });
+
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get("ETag")).toBe(etag);
+    expect(revalidated.headers.get("Cache-Control")).toBe("public, max-age=60");
+    expect(await revalidated.text()).toBe("");
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("ETag")).not.toBe(etag);
+    expect(await changed.json()).toEqual(["alice", "bob"]);
+  });
+
+  it("should leave mutations and errors without ETags", async () => {
+    const appRouter = t.router({
+      getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id })),
+      createUser: t.procedure.mutation(() => ({ id: "2" })),
+    });
+
+    const invalid = await get(appRouter, "getUser");
+    const mutation = await appRouter.handle(new Request("http://localhost/createUser", { method: "POST" }));
+
+    expect(invalid.headers.get("ETag")).toBeNull();
+    expect(mutation.headers.get("ETag")).toBeNull();
+  });
+
+  it("should serve public queries from the server-side cache until they expire or are invalidated", async () => {
+    vi.useFakeTimers();
+    const cache = createQueryCache();
+    let calls = 0;
+
+    const appRouter = t.router(
+      {
+        getUser: t.procedure
+          .meta({ cache: { maxAge: 60 } })
+          .input(z.object({ id: z.string() }))
+          .query(({ id }) => ({ id, calls: ++calls })),
+        me: t.procedure.meta({ cache: { maxAge: 60, private: true } }).query(() => ++calls),
+        renameUser: t.procedure.input(z.object({ id: z.string() })).mutation(({ id }) => {
+          cache.invalidate("getUser", { id });
+          return id;
+        }),
+      },
+      { cache }
+    );
+
+    const getUser = async (id: string) =>
+      (await get(appRouter, `getUser?input=${encodeURIComponent(JSON.stringify({ id }))}`)).json();
+
+    expect(await getUser("1")).toEqual({ id: "1", calls: 1 });
+    expect(await getUser("1")).toEqual({ id: "1", calls: 1 });
+    expect(await getUser("2")).toEqual({ id: "2", calls: 2 });
+
+    await appRouter.handle(
+      new Request("http://localhost/renameUser", { method: "POST", body: JSON.stringify({ id: "1" }) })
+    );
+    expect(await getUser("1")).toEqual({ id: "1", calls: 3 });
+
+    vi.advanceTimersByTime(61_000);
+    expect(await getUser("2")).toEqual({ id: "2", calls: 4 });
+
+    await get(appRouter, "me");
+    expect(await (await get(appRouter, "me")).json()).toBe(6);
+  });
+
+  it("should evict the oldest entries beyond maxEntries", () => {
+    const cache = createQueryCache({ maxEntries: 2 });
+
+    cache.set("a", { x: 1, y: 2 }, "first", 1000);
+    cache.set("a", { x: 2 }, "second", 1000);
+    cache.set("b", {}, "third", 1000);
+
+    expect(cache.get("a", { x: 1, y: 2 })).toBeUndefined();
+    expect(cache.get("a", { x: 2 })).toEqual({ value: "second" });
+    cache.invalidate("a");
+    expect(cache.get("a", { x: 2 })).toBeUndefined();
+    expect(cache.get("b", {})).toEqual({ value: "third" });
+  });
+});
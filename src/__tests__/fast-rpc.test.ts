@@ -1,5 +1,18 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
-import { initFastRPC, createClient, FastRPC, QueryProcedure, Context } from "../index";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  initFastRPC,
+  createClient,
+  FastRPC,
+  FastRPCError,
+  isFastRPCClientError,
+  isFastRPCAbortError,
+  httpBatchLink,
+  tracked,
+  QueryProcedure,
+  MutationProcedure,
+  SubscriptionProcedure,
+  Context,
+} from "../index";
 import { z } from "zod";
 
 // Mock fetch for client tests
@@ -90,6 +103,38 @@ describe("FastRPC", () => {
       expect(result).toEqual({ id: "1", name: "Test User" });
     });
 
+    it("should decode query input from the search params", async () => {
+      const input = encodeURIComponent(JSON.stringify({ id: "42" }));
+      const req = new Request(`http://localhost/getUser?input=${input}`, {
+        method: "GET",
+      });
+
+      const response = await appRouter.handle(req);
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result).toEqual({ id: "42", name: "Test User" });
+    });
+
+    it("should reject malformed query input", async () => {
+      const req = new Request("http://localhost/getUser?input=%7Bnot-json", {
+        method: "GET",
+      });
+
+      const response = await appRouter.handle(req);
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject oversized query input", async () => {
+      const input = encodeURIComponent(JSON.stringify({ id: "x".repeat(10_000) }));
+      const req = new Request(`http://localhost/getUser?input=${input}`, {
+        method: "GET",
+      });
+
+      const response = await appRouter.handle(req);
+      expect(response.status).toBe(400);
+    });
+
     it("should return 404 for unknown procedures", async () => {
       const req = new Request("http://localhost/unknown", {
         method: "GET",
@@ -122,6 +167,835 @@ describe("FastRPC", () => {
     });
   });
 
+  describe("Output Validation", () => {
+    const t = initFastRPC.create();
+
+    const appRouter = t.router({
+      getUser: t.procedure
+        .output(z.object({ id: z.string(), name: z.string() }))
+        .query(() => ({ id: "1", name: "Test User", passwordHash: "secret" })),
+      broken: t.procedure.output(z.object({ id: z.string() })).query(() => ({ id: 1 }) as any),
+    });
+
+    it("should strip unknown fields from the handler result", async () => {
+      const response = await appRouter.handle(new Request("http://localhost/getUser"));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ id: "1", name: "Test User" });
+    });
+
+    it("should fail with OUTPUT_VALIDATION_ERROR when the result does not match", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const response = await appRouter.handle(new Request("http://localhost/broken"));
+      const result = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(result.error).toEqual({ code: "OUTPUT_VALIDATION_ERROR", message: "Output validation failed" });
+      expect(consoleSpy).toHaveBeenCalledOnce();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("Errors", () => {
+    it("should map FastRPCError codes to HTTP statuses", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        secret: t.procedure.query(() => {
+          throw new FastRPCError({ code: "FORBIDDEN", message: "No access", data: { reason: "role" } });
+        }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/secret"));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        error: { code: "FORBIDDEN", message: "No access", data: { reason: "role" } },
+      });
+    });
+
+    it("should include zod issues in the error envelope", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        createUser: t.procedure.input(z.object({ name: z.string() })).mutation((input) => input),
+      });
+
+      const response = await appRouter.handle(
+        new Request("http://localhost/createUser", { method: "POST", body: JSON.stringify({ name: 1 }) })
+      );
+      const result = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.error.code).toBe("BAD_REQUEST");
+      expect(result.error.data.issues[0].path).toEqual(["name"]);
+    });
+
+    it("should hide unexpected errors behind INTERNAL_SERVER_ERROR", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        broken: t.procedure.query(() => {
+          throw new Error("database password is hunter2");
+        }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/broken"));
+      const result = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(result.error).toEqual({ code: "INTERNAL_SERVER_ERROR", message: "Internal server error" });
+      expect(consoleSpy).toHaveBeenCalledOnce();
+      consoleSpy.mockRestore();
+    });
+
+    it("should shape errors with errorFormatter", async () => {
+      const t = initFastRPC.create({
+        errorFormatter: ({ shape, path }) => ({ ...shape, path }),
+      });
+
+      const appRouter = t.router({
+        missing: t.procedure.query(() => {
+          throw new FastRPCError({ code: "NOT_FOUND" });
+        }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/missing"));
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: { code: "NOT_FOUND", message: "NOT_FOUND", path: "missing" } });
+    });
+
+    it("should fall back to the default shape when errorFormatter throws", async () => {
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const t = initFastRPC.create({
+        errorFormatter: () => {
+          throw new Error("formatter failed");
+        },
+      });
+
+      const appRouter = t.router({
+        events: t.procedure.subscription(async function* () {
+          yield 1;
+          throw new FastRPCError({ code: "FORBIDDEN" });
+        }),
+      });
+
+      const missing = await appRouter.handle(new Request("http://localhost/missing"));
+      const stream = await (await appRouter.handle(new Request("http://localhost/events"))).text();
+
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toMatchObject({ error: { code: "NOT_FOUND" } });
+      expect(stream).toContain('event: error\ndata: {"status":403,"body":{"error":{"code":"FORBIDDEN"');
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("Nested Routers", () => {
+    const t = initFastRPC.create();
+
+    const appRouter = t.router({
+      users: t.router({
+        get: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id, name: "Test User" })),
+        admin: t.router({
+          stats: t.procedure.query(() => ({ count: 3 })),
+        }),
+      }),
+      status: t.procedure.query(() => ({ status: "ok" })),
+    });
+
+    it("should resolve dotted procedure paths", async () => {
+      const input = encodeURIComponent(JSON.stringify({ id: "7" }));
+      const response = await appRouter.handle(new Request(`http://localhost/users.get?input=${input}`));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ id: "7", name: "Test User" });
+    });
+
+    it("should resolve slash-separated procedure paths", async () => {
+      const response = await appRouter.handle(new Request("http://localhost/users/admin/stats"));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ count: 3 });
+    });
+
+    it("should not expose routers themselves as procedures", async () => {
+      const response = await appRouter.handle(new Request("http://localhost/users"));
+      expect(response.status).toBe(404);
+    });
+
+    it("should run the middleware of mounted routers after the parent's", async () => {
+      const calls: string[] = [];
+      const guard = vi.fn(async ({ path }: { path: string }) => {
+        calls.push(`guard ${path}`);
+        throw new FastRPCError({ code: "UNAUTHORIZED" });
+      });
+      const guardedRouter = t.router(
+        {
+          public: t.procedure.query(() => "public"),
+          admin: t.router({ secret: t.procedure.query(() => "secret") }, { middleware: [guard] }),
+        },
+        {
+          middleware: [
+            ({ path, next }) => {
+              calls.push(`root ${path}`);
+              return next();
+            },
+          ],
+        }
+      );
+
+      const secret = await guardedRouter.handle(new Request("http://localhost/admin.secret"));
+      const open = await guardedRouter.handle(new Request("http://localhost/public"));
+
+      expect(secret.status).toBe(401);
+      expect(open.status).toBe(200);
+      expect(calls).toEqual(["root admin.secret", "guard admin.secret", "root public"]);
+    });
+
+    it("should call nested procedures through the client proxy", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ count: 3 }),
+      });
+
+      const client = createClient<typeof appRouter>("http://localhost");
+      const result = await client.users.admin.stats.query();
+
+      expect(result).toEqual({ count: 3 });
+      expect(mockFetch.mock.calls[0][0]).toBe("http://localhost/users.admin.stats");
+    });
+  });
+
+  describe("Base Path", () => {
+    const t = initFastRPC.create();
+
+    const appRouter = t.router(
+      {
+        getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id })),
+        users: t.router({
+          count: t.procedure.query(() => 1),
+        }),
+      },
+      { basePath: "/api/rpc/" }
+    );
+
+    it("should match procedures below the base path exactly", async () => {
+      const dotted = await appRouter.handle(new Request("http://localhost/api/rpc/users.count"));
+      const slashed = await appRouter.handle(new Request("http://localhost/api/rpc/users/count"));
+      const deeper = await appRouter.handle(new Request("http://localhost/api/rpc/extra/users.count"));
+
+      expect(await dotted.json()).toBe(1);
+      expect(await slashed.json()).toBe(1);
+      expect(deeper.status).toBe(404);
+    });
+
+    it("should return 404 outside the base path", async () => {
+      const outside = await appRouter.handle(new Request("http://localhost/other/users.count"));
+      const batch = await appRouter.handle(new Request("http://localhost/other/users.count?batch=1"));
+
+      expect(outside.status).toBe(404);
+      expect((await outside.json()).error.code).toBe("NOT_FOUND");
+      expect(batch.status).toBe(404);
+    });
+
+    it("should run batches below the base path", async () => {
+      const input = encodeURIComponent(JSON.stringify({ 0: { id: "1" } }));
+      const response = await appRouter.handle(
+        new Request(`http://localhost/api/rpc/getUser,users.count?batch=1&input=${input}`)
+      );
+
+      expect(await response.json()).toEqual([
+        { status: 200, body: { id: "1" } },
+        { status: 200, body: 1 },
+      ]);
+    });
+
+    it("should pass unmatched requests through with tryHandle", async () => {
+      const matched = await appRouter.tryHandle(new Request("http://localhost/api/rpc/users.count"));
+      const unknown = await appRouter.tryHandle(new Request("http://localhost/api/rpc/missing"));
+      const outside = await appRouter.tryHandle(new Request("http://localhost/health"));
+
+      expect(await matched!.json()).toBe(1);
+      expect(unknown).toBeUndefined();
+      expect(outside).toBeUndefined();
+    });
+  });
+
+  describe("HTTP Methods", () => {
+    const t = initFastRPC.create();
+
+    let created = 0;
+    const appRouter = t.router({
+      getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id })),
+      createUser: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }) => {
+        created++;
+        return { id: "2", name };
+      }),
+    });
+
+    it("should reject a GET to a mutation with 405 and an Allow header", async () => {
+      const response = await appRouter.handle(new Request("http://localhost/createUser"));
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get("Allow")).toBe("POST, OPTIONS");
+      expect((await response.json()).error.code).toBe("METHOD_NOT_SUPPORTED");
+      expect(created).toBe(0);
+    });
+
+    it("should reject a POST to a query unless allowPostQueries is set", async () => {
+      const request = () =>
+        new Request("http://localhost/getUser", { method: "POST", body: JSON.stringify({ id: "1" }) });
+      const rejected = await appRouter.handle(request());
+      const accepted = await appRouter.handle(request(), { allowPostQueries: true });
+
+      expect(rejected.status).toBe(405);
+      expect(rejected.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+      expect(await accepted.json()).toEqual({ id: "1" });
+    });
+
+    it("should answer OPTIONS and HEAD", async () => {
+      const options = await appRouter.handle(new Request("http://localhost/getUser", { method: "OPTIONS" }));
+      const input = encodeURIComponent(JSON.stringify({ id: "1" }));
+      const head = await appRouter.handle(new Request(`http://localhost/getUser?input=${input}`, { method: "HEAD" }));
+
+      expect(options.status).toBe(204);
+      expect(options.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+      expect(head.status).toBe(200);
+      expect(head.headers.get("Content-Type")).toContain("application/json");
+      expect(await head.text()).toBe("");
+    });
+
+    it("should check the method of every call in a batch", async () => {
+      const response = await appRouter.handle(new Request("http://localhost/getUser,createUser?batch=1"));
+      const [, mutation] = await response.json();
+
+      expect(mutation.status).toBe(405);
+      expect(mutation.body.error.code).toBe("METHOD_NOT_SUPPORTED");
+    });
+  });
+
+  describe("CORS", () => {
+    const t = initFastRPC.create();
+
+    const procedures = {
+      getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id })),
+      createUser: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }) => ({ id: "2", name })),
+    };
+
+    const preflight = (path: string, origin: string) =>
+      new Request(`http://localhost/${path}`, {
+        method: "OPTIONS",
+        headers: {
+          Origin: origin,
+          "Access-Control-Request-Method": "POST",
+          "Access-Control-Request-Headers": "content-type, authorization",
+        },
+      });
+
+    it("should answer preflights for known procedures", async () => {
+      const appRouter = t.router(procedures, {
+        cors: { origin: ["https://app.example.com", /\.example\.org$/], credentials: true, maxAge: 600 },
+      });
+
+      const response = await appRouter.handle(preflight("createUser", "https://app.example.com"));
+
+      expect(response.status).toBe(204);
+      expect(response.headers.get("Access-Control-Allow-Origin")).toBe("https://app.example.com");
+      expect(response.headers.get("Access-Control-Allow-Credentials")).toBe("true");
+      expect(response.headers.get("Access-Control-Allow-Methods")).toBe("POST, OPTIONS");
+      expect(response.headers.get("Access-Control-Allow-Headers")).toBe("content-type, authorization");
+      expect(response.headers.get("Access-Control-Max-Age")).toBe("600");
+      expect(response.headers.get("Vary")).toContain("Origin");
+
+      const missing = await appRouter.handle(preflight("missing", "https://app.example.com"));
+      expect(missing.status).toBe(404);
+      expect(missing.headers.get("Access-Control-Allow-Origin")).toBe("https://app.example.com");
+    });
+
+    it("should leave out CORS headers for origins that are not allowed", async () => {
+      const appRouter = t.router(procedures, {
+        cors: { origin: (origin) => origin.endsWith(".example.com") },
+      });
+
+      const allowed = await appRouter.handle(preflight("createUser", "https://admin.example.com"));
+      const denied = await appRouter.handle(preflight("createUser", "https://evil.test"));
+
+      expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe("https://admin.example.com");
+      expect(denied.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    });
+
+    it("should not allow every origin with credentials", async () => {
+      const appRouter = t.router(procedures, { cors: { credentials: true } });
+
+      const response = await appRouter.handle(preflight("createUser", "https://evil.test"));
+
+      expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+      expect(response.headers.get("Access-Control-Allow-Credentials")).toBeNull();
+    });
+
+    it("should answer 500 when the origin function throws", async () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+      const appRouter = t.router(procedures, {
+        cors: {
+          origin: () => {
+            throw new Error("lookup failed");
+          },
+        },
+      });
+
+      const response = await appRouter.handle(preflight("createUser", "https://app.example.com"));
+
+      expect(response.status).toBe(500);
+      expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+      expect(await response.json()).toMatchObject({ error: { code: "INTERNAL_SERVER_ERROR" } });
+      consoleError.mockRestore();
+    });
+
+    it("should decorate regular and error responses", async () => {
+      const appRouter = t.router(procedures, { cors: { exposedHeaders: ["X-Request-Id"] } });
+
+      const input = encodeURIComponent(JSON.stringify({ id: "1" }));
+      const ok = await appRouter.handle(
+        new Request(`http://localhost/getUser?input=${input}`, { headers: { Origin: "https://app.example.com" } })
+      );
+      const failed = await appRouter.handle(new Request("http://localhost/getUser"));
+
+      expect(ok.headers.get("Access-Control-Allow-Origin")).toBe("*");
+      expect(ok.headers.get("Access-Control-Expose-Headers")).toBe("X-Request-Id");
+      expect(await ok.json()).toEqual({ id: "1" });
+      expect(failed.status).toBe(400);
+      expect(failed.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    });
+  });
+
+  describe("Context", () => {
+    it("should build the context per request with createContext", async () => {
+      const t = initFastRPC.create({
+        createContext: async (req: Request) => ({ userId: req.headers.get("x-user-id") }),
+      });
+
+      const appRouter = t.router({
+        whoami: t.procedure.query((input, ctx) => ({ userId: ctx.userId })),
+      });
+
+      const first = await appRouter.handle(
+        new Request("http://localhost/whoami", { headers: { "x-user-id": "alice" } })
+      );
+      const second = await appRouter.handle(
+        new Request("http://localhost/whoami", { headers: { "x-user-id": "bob" } })
+      );
+
+      expect(await first.json()).toEqual({ userId: "alice" });
+      expect(await second.json()).toEqual({ userId: "bob" });
+    });
+
+    it("should let router() and handle() override createContext", async () => {
+      const t = initFastRPC.create({ createContext: () => ({ source: "builder" }) });
+
+      const procedures = { source: t.procedure.query((input, ctx) => ctx.source) };
+      const appRouter = t.router(procedures, { createContext: () => ({ source: "router" }) });
+
+      const fromRouter = await appRouter.handle(new Request("http://localhost/source"));
+      const fromHandle = await appRouter.handle(new Request("http://localhost/source"), {
+        createContext: () => ({ source: "handle" }),
+      });
+
+      expect(await fromRouter.json()).toBe("router");
+      expect(await fromHandle.json()).toBe("handle");
+    });
+  });
+
+  describe("Response Control", () => {
+    const t = initFastRPC.create();
+
+    it("should apply headers, cookies and status set through ctx.res", async () => {
+      const appRouter = t.router({
+        login: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }, ctx) => {
+          ctx.res
+            .status(201)
+            .setHeader("Cache-Control", "no-store")
+            .setCookie("session", "a b", { httpOnly: true, path: "/", sameSite: "lax", maxAge: 3600 })
+            .setCookie("theme", "dark");
+          return { name };
+        }),
+      });
+
+      const response = await appRouter.handle(
+        new Request("http://localhost/login", { method: "POST", body: JSON.stringify({ name: "Alice" }) })
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      expect(response.headers.getSetCookie()).toEqual([
+        "session=a%20b; Max-Age=3600; Path=/; HttpOnly; SameSite=Lax",
+        "theme=dark",
+      ]);
+      expect(await response.json()).toEqual({ name: "Alice" });
+    });
+
+    it("should keep ctx.res on contexts from middleware and apply it to errors", async () => {
+      const appRouter = t.router({
+        logout: t.procedure
+          .use(async ({ ctx, next }) => {
+            ctx.res.setHeader("X-Request-Id", "42");
+            return next({ ctx: { user: null } });
+          })
+          .mutation((input, ctx) => {
+            ctx.res.status(201).setCookie("session", "", { maxAge: 0 });
+            throw new FastRPCError({ code: "UNAUTHORIZED", message: "Not logged in" });
+          }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/logout", { method: "POST", body: "{}" }));
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("X-Request-Id")).toBe("42");
+      expect(response.headers.get("Set-Cookie")).toBe("session=; Max-Age=0");
+    });
+
+    it("should keep per-call statuses in batches and merge their headers", async () => {
+      const appRouter = t.router({
+        first: t.procedure.query((input, ctx) => {
+          ctx.res.status(202).setCookie("a", "1");
+          return 1;
+        }),
+        second: t.procedure.query((input, ctx) => {
+          ctx.res.setCookie("b", "2");
+          return 2;
+        }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/first,second?batch=1"));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.getSetCookie()).toEqual(["a=1", "b=2"]);
+      expect(await response.json()).toEqual([
+        { status: 202, body: 1 },
+        { status: 200, body: 2 },
+      ]);
+    });
+  });
+
+  describe("Batching", () => {
+    const t = initFastRPC.create();
+
+    const appRouter = t.router(
+      {
+        getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id, name: "Test User" })),
+        listUsers: t.procedure.query(() => [{ id: "1" }]),
+        users: t.router({
+          count: t.procedure.query(() => 1),
+        }),
+        createUser: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }) => ({ id: "2", name })),
+      },
+      { maxBatchSize: 3 }
+    );
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should run batched queries and return per-call entries", async () => {
+      const input = encodeURIComponent(JSON.stringify({ 0: { id: "1" } }));
+      const response = await appRouter.handle(
+        new Request(`http://localhost/getUser,listUsers,users.count?batch=1&input=${input}`)
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual([
+        { status: 200, body: { id: "1", name: "Test User" } },
+        { status: 200, body: [{ id: "1" }] },
+        { status: 200, body: 1 },
+      ]);
+    });
+
+    it("should report errors per call", async () => {
+      const response = await appRouter.handle(
+        new Request("http://localhost/createUser,unknown?batch=1", {
+          method: "POST",
+          body: JSON.stringify({ 0: { name: 42 } }),
+        })
+      );
+      const [invalid, missing] = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error.code).toBe("BAD_REQUEST");
+      expect(missing.status).toBe(404);
+      expect(missing.body.error.code).toBe("NOT_FOUND");
+    });
+
+    it("should reject batches above maxBatchSize", async () => {
+      const response = await appRouter.handle(
+        new Request("http://localhost/listUsers,listUsers,listUsers,listUsers?batch=1")
+      );
+      expect(response.status).toBe(400);
+    });
+
+    it("should not claim batch requests for paths it does not serve", async () => {
+      const unrelated = await appRouter.tryHandle(new Request("http://localhost/some/other/page?batch=1"));
+      const partly = await appRouter.tryHandle(new Request("http://localhost/listUsers,missing?batch=1"));
+
+      expect(unrelated).toBeUndefined();
+      expect((await partly!.json()).map((entry: { status: number }) => entry.status)).toEqual([200, 404]);
+    });
+
+    it("should coalesce client calls made in the same tick", async () => {
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost", {
+        links: [httpBatchLink({ maxBatchSize: 3 })],
+      });
+
+      const [user, users, count, created] = await Promise.all([
+        client.getUser.query({ id: "1" }),
+        client.listUsers.query(),
+        client.users.count.query(),
+        client.createUser.mutation({ name: "Alice" }),
+      ]);
+
+      expect(user).toEqual({ id: "1", name: "Test User" });
+      expect(users).toEqual([{ id: "1" }]);
+      expect(count).toBe(1);
+      expect(created).toEqual({ id: "2", name: "Alice" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toMatch(/^http:\/\/localhost\/getUser,listUsers,users\.count\?batch=1&input=/);
+    });
+
+    it("should split query batches whose inputs would not fit in one URL", async () => {
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost", {
+        links: [httpBatchLink({ maxBatchSize: 3 })],
+      });
+      const ids = ["a", "b", "c"].map((letter) => letter.repeat(3000));
+
+      const users = await Promise.all(ids.map((id) => client.getUser.query({ id })));
+
+      expect(users.map((user) => user.id)).toEqual(ids);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toMatch(/^http:\/\/localhost\/getUser,getUser\?batch=1/);
+    });
+
+    it("should reject only the failing call of a batch", async () => {
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost", { links: [httpBatchLink()] });
+
+      const [ok, failed] = await Promise.allSettled([client.listUsers.query(), client.getUser.query({ id: 1 as any })]);
+
+      expect(ok).toEqual({ status: "fulfilled", value: [{ id: "1" }] });
+      expect(failed.status).toBe("rejected");
+      expect((failed as PromiseRejectedResult).reason.code).toBe("BAD_REQUEST");
+      expect((failed as PromiseRejectedResult).reason.path).toBe("getUser");
+    });
+  });
+
+  describe("Subscriptions", () => {
+    const readStream = async (response: Response) => {
+      const text = await response.text();
+      return text.split("\n\n").filter(Boolean);
+    };
+
+    afterEach(() => {
+      mockFetch.mockReset();
+      vi.useRealTimers();
+    });
+
+    it("should stream handler values as server-sent events", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        onMessage: t.procedure.input(z.object({ room: z.string() })).subscription(async function* ({ room }) {
+          yield tracked("1", { room, text: "hello" });
+          yield { room, text: "world" };
+        }),
+      });
+
+      const input = encodeURIComponent(JSON.stringify({ room: "general" }));
+      const response = await appRouter.handle(new Request(`http://localhost/onMessage?input=${input}`));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(await readStream(response)).toEqual([
+        'id: 1\ndata: {"room":"general","text":"hello"}',
+        'data: {"room":"general","text":"world"}',
+        "event: complete\ndata: ",
+      ]);
+    });
+
+    it("should pass Last-Event-ID to the handler", async () => {
+      const t = initFastRPC.create();
+      const seen = vi.fn();
+
+      const appRouter = t.router({
+        events: t.procedure.subscription(async function* (input, ctx, { lastEventId }) {
+          seen(lastEventId);
+        }),
+      });
+
+      const response = await appRouter.handle(
+        new Request("http://localhost/events", { headers: { "Last-Event-ID": "41" } })
+      );
+      await response.text();
+
+      expect(seen).toHaveBeenCalledWith("41");
+    });
+
+    it("should send errors thrown by the iterable as an error event", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        events: t.procedure.subscription(async function* () {
+          yield 1;
+          throw new FastRPCError({ code: "FORBIDDEN", message: "Kicked" });
+        }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/events"));
+
+      expect(await readStream(response)).toEqual([
+        "data: 1",
+        'event: error\ndata: {"status":403,"body":{"error":{"code":"FORBIDDEN","message":"Kicked"}}}',
+      ]);
+    });
+
+    it("should stop the iterable when the request is aborted", async () => {
+      const t = initFastRPC.create();
+      const finished = vi.fn();
+      const controller = new AbortController();
+
+      const appRouter = t.router({
+        ticks: t.procedure.subscription(async function* (input, ctx, { signal }) {
+          try {
+            while (!signal.aborted) {
+              yield Date.now();
+              await new Promise((resolve) => setTimeout(resolve, 5));
+            }
+          } finally {
+            finished();
+          }
+        }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/ticks", { signal: controller.signal }));
+      const reader = response.body!.getReader();
+      await reader.read();
+      controller.abort();
+
+      while (!(await reader.read()).done);
+      await vi.waitFor(() => expect(finished).toHaveBeenCalled());
+    });
+
+    it("should deliver events to client subscribers", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        counter: t.procedure.input(z.object({ to: z.number() })).subscription(async function* ({ to }) {
+          for (let i = 1; i <= to; i++) yield i;
+        }),
+      });
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost");
+      const data: number[] = [];
+
+      await new Promise<void>((resolve, reject) => {
+        client.counter.subscribe({ to: 3 }, { onData: (n) => data.push(n), onComplete: resolve, onError: reject });
+      });
+
+      expect(data).toEqual([1, 2, 3]);
+    });
+
+    it("should reconnect with the last event id after the stream drops", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout"] });
+      const sse = (text: string) =>
+        new Response(text, { headers: { "Content-Type": "text/event-stream" } }) as Response;
+
+      mockFetch
+        .mockResolvedValueOnce(sse('id: 1\ndata: "a"\n\n'))
+        .mockResolvedValueOnce(sse('id: 2\ndata: "b"\n\nevent: complete\ndata: \n\n'));
+
+      type Router = FastRPC & { procedures: { events: SubscriptionProcedure<void, string> } };
+      const client = createClient<Router>("http://localhost");
+      const data: string[] = [];
+      const completed = new Promise<void>((resolve) => {
+        client.events.subscribe(undefined, { onData: (value) => data.push(value), onComplete: resolve });
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await completed;
+
+      expect(data).toEqual(["a", "b"]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers["Last-Event-ID"]).toBe("1");
+    });
+
+    it("should end the subscription instead of reconnecting when handling an event fails", async () => {
+      const sse = (text: string) =>
+        new Response(text, { headers: { "Content-Type": "text/event-stream" } }) as Response;
+      mockFetch.mockResolvedValueOnce(sse('id: 1\ndata: "a"\n\n')).mockResolvedValueOnce(sse("data: {\n\n"));
+
+      type Router = FastRPC & { procedures: { events: SubscriptionProcedure<void, string> } };
+      const client = createClient<Router>("http://localhost");
+      const failure = new Error("observer failed");
+
+      const observerError = await new Promise((resolve) => {
+        client.events.subscribe(undefined, {
+          onData: () => {
+            throw failure;
+          },
+          onError: resolve,
+        });
+      });
+      const parseError = await new Promise((resolve) => {
+        client.events.subscribe(undefined, { onData: () => {}, onError: resolve });
+      });
+
+      expect(observerError).toBe(failure);
+      expect(parseError).toBeInstanceOf(SyntaxError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop reconnecting once unsubscribed", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        forever: t.procedure.subscription(async function* (input, ctx, { signal }) {
+          while (!signal.aborted) {
+            yield "tick";
+            await new Promise((resolve) => setTimeout(resolve, 5));
+          }
+        }),
+      });
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost");
+      const onComplete = vi.fn();
+      const onError = vi.fn();
+
+      await new Promise<void>((resolve) => {
+        const subscription = client.forever.subscribe(undefined, {
+          onData: () => {
+            subscription.unsubscribe();
+            resolve();
+          },
+          onComplete,
+          onError,
+        });
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onComplete).not.toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Middleware", () => {
     it("should execute middleware chain", async () => {
       const middlewareSpy = vi.fn();
@@ -167,6 +1041,118 @@ describe("FastRPC", () => {
       expect(middlewareSpy).toHaveBeenNthCalledWith(2, "admin");
     });
 
+    it("should resolve next() to the result of the rest of the chain", async () => {
+      const t = initFastRPC.create();
+      const order: string[] = [];
+
+      const appRouter = t.router({
+        greet: t.procedure
+          .use(async ({ ctx, next }) => {
+            order.push("outer:before");
+            const result = await next({ ctx });
+            order.push("outer:after");
+            return { ...result, wrapped: true };
+          })
+          .use(async ({ ctx, next }) => {
+            order.push("inner:before");
+            const result = await next({ ctx });
+            order.push("inner:after");
+            return result;
+          })
+          .query(() => {
+            order.push("handler");
+            return { greeting: "hello" };
+          }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/greet"));
+
+      expect(await response.json()).toEqual({ greeting: "hello", wrapped: true });
+      expect(order).toEqual(["outer:before", "inner:before", "handler", "inner:after", "outer:after"]);
+    });
+
+    it("should let middleware intercept handler errors", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        lookup: t.procedure
+          .use(async ({ ctx, next }) => {
+            try {
+              return await next({ ctx });
+            } catch (error) {
+              throw new FastRPCError({ code: "CONFLICT", message: "Mapped", cause: error });
+            }
+          })
+          .query(() => {
+            throw new Error("unique constraint violated");
+          }),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/lookup"));
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).error.message).toBe("Mapped");
+    });
+
+    it("should not run the handler when middleware does not call next", async () => {
+      const t = initFastRPC.create();
+      const handler = vi.fn(() => "fresh");
+
+      const appRouter = t.router({
+        cached: t.procedure.use(async () => "cached").query(handler),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/cached"));
+
+      expect(await response.json()).toBe("cached");
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should let middleware map the result of next() to any value", async () => {
+      const t = initFastRPC.create();
+
+      const appRouter = t.router({
+        count: t.procedure.use(async ({ next }) => 1 + ((await next()) as number)).query(() => 41),
+      });
+
+      const response = await appRouter.handle(new Request("http://localhost/count"));
+
+      expect(await response.json()).toBe(42);
+    });
+
+    it("should pass the context given to next() to later middleware and the handler", async () => {
+      const t = initFastRPC.create({
+        createContext: (req: Request) => ({ userId: req.headers.get("x-user-id") }),
+      });
+
+      const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+        if (!ctx.userId) throw new FastRPCError({ code: "UNAUTHORIZED" });
+        return next({ ctx: { user: { id: ctx.userId } } });
+      });
+
+      const appRouter = t.router({
+        me: protectedProcedure.query((input, ctx) => ctx.user),
+        rename: protectedProcedure
+          .input(z.object({ name: z.string() }))
+          .use(async ({ ctx, next }) => next({ ctx: { ...ctx, auditId: `audit-${ctx.user.id}` } }))
+          .mutation(({ name }, ctx) => ({ id: ctx.user.id, name, auditId: ctx.auditId })),
+      });
+
+      const me = await appRouter.handle(new Request("http://localhost/me", { headers: { "x-user-id": "7" } }));
+      const anonymous = await appRouter.handle(new Request("http://localhost/me"));
+      const renamed = await appRouter.handle(
+        new Request("http://localhost/rename", {
+          method: "POST",
+          headers: { "x-user-id": "7" },
+          body: JSON.stringify({ name: "Alice" }),
+        })
+      );
+
+      expect(await me.json()).toEqual({ id: "7" });
+      expect(anonymous.status).toBe(401);
+      expect(await renamed.json()).toEqual({ id: "7", name: "Alice", auditId: "audit-7" });
+    });
+
     it("should handle middleware errors", async () => {
       const t = initFastRPC.create();
 
@@ -190,6 +1176,125 @@ describe("FastRPC", () => {
     });
   });
 
+  describe("Procedure Meta", () => {
+    const t = initFastRPC.create({ createContext: () => ({ roles: ["user"] }) });
+
+    const requireRoles = t.procedure.use(async ({ ctx, meta, next }) => {
+      if (meta.roles?.some((role) => !ctx.roles.includes(role))) {
+        throw new FastRPCError({ code: "FORBIDDEN", message: `Requires ${meta.roles.join(", ")}` });
+      }
+      return next();
+    });
+
+    const appRouter = t.router({
+      users: t.router({
+        get: requireRoles
+          .meta({ description: "Gets a user", tags: ["users"] })
+          .input(z.object({ id: z.string() }))
+          .output(z.object({ id: z.string() }))
+          .query(({ id }) => ({ id })),
+        delete: requireRoles
+          .meta({ tags: ["users"], roles: ["admin"] })
+          .meta({ deprecated: true })
+          .input(z.object({ id: z.string() }))
+          .mutation(() => true),
+      }),
+    });
+
+    it("should list procedures with their schemas and meta", () => {
+      const idSchema = { type: "object", properties: { id: { type: "string" } }, required: ["id"] };
+
+      expect(appRouter.listProcedures()).toEqual([
+        {
+          path: "users.get",
+          type: "query",
+          input: idSchema,
+          output: idSchema,
+          meta: { description: "Gets a user", tags: ["users"] },
+        },
+        {
+          path: "users.delete",
+          type: "mutation",
+          input: idSchema,
+          meta: { tags: ["users"], roles: ["admin"], deprecated: true },
+        },
+      ]);
+    });
+
+    it("should hand the meta to middleware", async () => {
+      const caller = appRouter.createCaller({ roles: ["user"] });
+
+      expect(await caller.users.get.query({ id: "1" })).toEqual({ id: "1" });
+      await expect(caller.users.delete.mutation({ id: "1" })).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        message: "Requires admin",
+      });
+    });
+  });
+
+  describe("Caller", () => {
+    const t = initFastRPC.create({ createContext: () => ({ userId: null as string | null }) });
+
+    const isAuthed = t.procedure.use(async ({ ctx, next }) => {
+      if (!ctx.userId) throw new FastRPCError({ code: "UNAUTHORIZED", message: "Sign in first" });
+      return next({ ctx: { userId: ctx.userId } });
+    });
+
+    const appRouter = t.router({
+      users: t.router({
+        get: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id, createdAt: new Date(0) })),
+      }),
+      whoami: isAuthed.query((input, ctx) => ctx.userId),
+      rename: isAuthed.input(z.object({ name: z.string() })).mutation(({ name }, ctx) => `${ctx.userId}:${name}`),
+      legacy: t.procedure.use(async () => new Response("Gone", { status: 404 })).query(() => "unreachable"),
+      crash: t.procedure.query(() => {
+        throw new Error("database password leaked");
+      }),
+      count: t.procedure.subscription(async function* () {
+        yield 1;
+        yield tracked("2", 2);
+      }),
+    });
+
+    it("should call procedures directly, without serializing results", async () => {
+      const caller = appRouter.createCaller({ userId: "alice" });
+
+      expect(await caller.users.get.query({ id: "1" })).toEqual({ id: "1", createdAt: new Date(0) });
+      expect(await caller.whoami.query()).toBe("alice");
+      expect(await caller.rename.mutation({ name: "Bob" })).toBe("alice:Bob");
+    });
+
+    it("should reject with the errors the HTTP response would carry", async () => {
+      const anonymous = appRouter.createCaller({ userId: null });
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(anonymous.whoami.query()).rejects.toMatchObject({ code: "UNAUTHORIZED", message: "Sign in first" });
+      await expect(anonymous.users.get.query({ id: 1 as any })).rejects.toBeInstanceOf(FastRPCError);
+      await expect(anonymous.users.get.query({ id: 1 as any })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(anonymous.legacy.query()).rejects.toMatchObject({ code: "NOT_FOUND", message: "Gone" });
+      await expect(anonymous.crash.query()).rejects.toMatchObject({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Internal server error",
+      });
+      consoleError.mockRestore();
+    });
+
+    it("should deliver subscription data to the observer", async () => {
+      const caller = appRouter.createCaller({ userId: null });
+      const received: unknown[] = [];
+
+      await new Promise<void>((resolve, reject) => {
+        caller.count.subscribe(undefined, {
+          onData: (data) => received.push(data),
+          onError: reject,
+          onComplete: resolve,
+        });
+      });
+
+      expect(received).toEqual([1, 2]);
+    });
+  });
+
   describe("Client", () => {
     beforeEach(() => {
       mockFetch.mockClear();
@@ -215,6 +1320,45 @@ describe("FastRPC", () => {
       expect(result.data).toBe("test");
     });
 
+    it("should serialize query input into the URL", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id: "1", data: "test" }),
+      });
+
+      type Router = {
+        getData: QueryProcedure<{ id: string }, { id: string; data: string }>;
+      };
+
+      const client = createClient<Router>("http://localhost");
+      await client.getData.query({ id: "1" });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(`http://localhost/getData?input=${encodeURIComponent(JSON.stringify({ id: "1" }))}`);
+      expect(init.method).toBe("GET");
+    });
+
+    it("should validate calls without input as undefined, like callers do", async () => {
+      const t = initFastRPC.create();
+      const appRouter = t.router({
+        maybe: t.procedure.input(z.number().optional()).query((input) => input ?? "none"),
+        list: t.procedure.input(z.object({ limit: z.number() }).default({ limit: 5 })).query((input) => input?.limit),
+        rename: t.procedure.input(z.string().optional()).mutation((name) => name ?? "unnamed"),
+      });
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost");
+      const caller = appRouter.createCaller({});
+
+      expect(await client.maybe.query()).toBe("none");
+      expect(await client.list.query()).toBe(5);
+      expect(await client.rename.mutation()).toBe("unnamed");
+      expect(mockFetch.mock.calls[2][1].body).toBeUndefined();
+      expect(await caller.maybe.query()).toBe("none");
+      expect(await caller.list.query()).toBe(5);
+      expect(await caller.rename.mutation()).toBe("unnamed");
+    });
+
     it("should handle network errors", async () => {
       mockFetch.mockRejectedValueOnce(new Error("Network error"));
 
@@ -232,5 +1376,118 @@ describe("FastRPC", () => {
 
       await expect(client.test.query()).rejects.toThrow("Network error");
     });
+
+    it("should throw a typed error carrying the server error envelope", async () => {
+      const issues = [
+        { code: "invalid_type", expected: "string", received: "number", path: ["name"], message: "Expected" },
+      ];
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () =>
+          Promise.resolve({ error: { code: "BAD_REQUEST", message: "Input validation failed", data: { issues } } }),
+      });
+
+      type Router = {
+        createUser: MutationProcedure<{ name: string }, { id: string }>;
+      };
+
+      const client = createClient<Router>("http://localhost");
+      const error = await client.createUser.mutation({ name: 1 as any }).catch((e) => e);
+
+      expect(isFastRPCClientError(error)).toBe(true);
+      expect(error.status).toBe(400);
+      expect(error.code).toBe("BAD_REQUEST");
+      expect(error.message).toBe("Input validation failed");
+      expect(error.path).toBe("createUser");
+      expect(error.issues).toEqual(issues);
+    });
+
+    it("should fall back to the HTTP status when the error body is not JSON", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        json: () => Promise.reject(new SyntaxError("Unexpected token")),
+      });
+
+      type Router = {
+        test: QueryProcedure<void, { ok: boolean }>;
+      };
+
+      const client = createClient<Router>("http://localhost");
+      const error = await client.test.query().catch((e) => e);
+
+      expect(isFastRPCClientError(error)).toBe(true);
+      expect(error.status).toBe(502);
+      expect(error.code).toBeUndefined();
+      expect(error.message).toBe("HTTP error! status: 502");
+    });
+
+    describe("call options", () => {
+      let handlerSignal: AbortSignal | undefined;
+      const t = initFastRPC.create({ createContext: (req: Request) => ({ auth: req.headers.get("authorization") }) });
+
+      const appRouter = t.router({
+        slow: t.procedure.query(
+          (input, ctx) =>
+            new Promise<string>((resolve) => {
+              handlerSignal = ctx.signal;
+              const timer = setTimeout(() => resolve("done"), 100);
+              ctx.signal.addEventListener("abort", () => {
+                clearTimeout(timer);
+                resolve("stopped");
+              });
+            })
+        ),
+        whoami: t.procedure.query((input, ctx) => ctx.auth),
+        trace: t.procedure.query((input, ctx) => ctx.auth),
+      });
+
+      beforeEach(() => {
+        handlerSignal = undefined;
+        mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+      });
+
+      it("should reject aborted calls with a FastRPCAbortError and abort the request", async () => {
+        const client = createClient<typeof appRouter>("http://localhost");
+        const controller = new AbortController();
+
+        const call = client.slow.query(undefined, { signal: controller.signal });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        controller.abort();
+        const error = await call.catch((e) => e);
+
+        expect(isFastRPCAbortError(error)).toBe(true);
+        expect(error).toMatchObject({ path: "slow", timedOut: false, message: 'Call to "slow" was aborted' });
+        expect(handlerSignal?.aborted).toBe(true);
+      });
+
+      it("should time out calls after timeoutMs, per call or client-wide", async () => {
+        const client = createClient<typeof appRouter>("http://localhost", { timeoutMs: 20 });
+
+        const clientWide = await client.slow.query().catch((e) => e);
+        const perCall = await client.slow.query(undefined, { timeoutMs: 5000 });
+
+        expect(isFastRPCAbortError(clientWide)).toBe(true);
+        expect(clientWide.timedOut).toBe(true);
+        expect(perCall).toBe("done");
+      });
+
+      it("should merge client-wide and per-call headers, batching only calls with equal headers", async () => {
+        const client = createClient<typeof appRouter>("http://localhost", {
+          headers: { authorization: "Bearer client" },
+          links: [httpBatchLink()],
+        });
+
+        const results = await Promise.all([
+          client.whoami.query(),
+          client.trace.query(),
+          client.whoami.query(undefined, { headers: { authorization: "Bearer call" } }),
+        ]);
+
+        expect(results).toEqual(["Bearer client", "Bearer client", "Bearer call"]);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+    });
   });
 });
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { initFastRPC, createClient, httpLink, headersLink, retryLink, loggerLink, FastRPCError } from "../index";
+import type { LogEntry } from "../index";
+import { z } from "zod";
+
+describe("Client links", () => {
+  const t = initFastRPC.create({ createContext: (req: Request) => ({ auth: req.headers.get("authorization") }) });
+
+  let failures = 0;
+  const appRouter = t.router({
+    whoami: t.procedure.query((input, ctx) => ctx.auth),
+    flaky: t.procedure.query(() => {
+      if (failures > 0) {
+        failures--;
+        throw new FastRPCError({ code: "TOO_MANY_REQUESTS" });
+      }
+      return "ok";
+    }),
+    invalid: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => id),
+    remove: t.procedure.mutation((input, ctx) => {
+      ctx.res.status(204);
+    }),
+    save: t.procedure.mutation(() => {
+      if (failures > 0) {
+        failures--;
+        throw new FastRPCError({ code: "TOO_MANY_REQUESTS" });
+      }
+      return "saved";
+    }),
+  });
+
+  const fetchFromRouter = vi.fn((url: string, init: RequestInit) => appRouter.handle(new Request(url, init)));
+
+  it("should send requests with a custom fetch and headers from an async source", async () => {
+    fetchFromRouter.mockClear();
+    const client = createClient<typeof appRouter>("http://localhost", {
+      fetch: fetchFromRouter,
+      links: [headersLink(async () => ({ authorization: `Bearer ${await Promise.resolve("token")}` })), httpLink()],
+    });
+
+    expect(await client.whoami.query()).toBe("Bearer token");
+    expect(await client.whoami.query(undefined, { headers: { authorization: "Bearer override" } })).toBe(
+      "Bearer override"
+    );
+    expect(fetchFromRouter).toHaveBeenCalledTimes(2);
+  });
+
+  it("should resolve responses without a body to undefined", async () => {
+    const client = createClient<typeof appRouter>("http://localhost", { fetch: fetchFromRouter });
+
+    expect(await client.remove.mutation()).toBeUndefined();
+  });
+
+  it("should retry queries that fail with transient errors", async () => {
+    fetchFromRouter.mockClear();
+    const client = createClient<typeof appRouter>("http://localhost", {
+      fetch: fetchFromRouter,
+      links: [retryLink({ retries: 3, baseDelayMs: 1 }), httpLink()],
+    });
+
+    failures = 2;
+    expect(await client.flaky.query()).toBe("ok");
+    expect(fetchFromRouter).toHaveBeenCalledTimes(3);
+
+    failures = 5;
+    await expect(client.flaky.query()).rejects.toMatchObject({ status: 429 });
+    expect(fetchFromRouter).toHaveBeenCalledTimes(7);
+    failures = 0;
+  });
+
+  it("should not retry mutations or client errors", async () => {
+    fetchFromRouter.mockClear();
+    const client = createClient<typeof appRouter>("http://localhost", {
+      fetch: fetchFromRouter,
+      links: [retryLink({ baseDelayMs: 1 }), httpLink()],
+    });
+
+    failures = 1;
+    await expect(client.save.mutation()).rejects.toMatchObject({ status: 429 });
+    await expect(client.invalid.query({ id: 1 as any })).rejects.toMatchObject({ status: 400 });
+    expect(fetchFromRouter).toHaveBeenCalledTimes(2);
+    failures = 0;
+  });
+
+  it("should log operations as they start and settle", async () => {
+    const entries: LogEntry[] = [];
+    const client = createClient<typeof appRouter>("http://localhost", {
+      fetch: fetchFromRouter,
+      links: [loggerLink({ log: (entry) => entries.push(entry) }), httpLink()],
+    });
+
+    await client.whoami.query();
+    await client.invalid.query({ id: 1 as any }).catch(() => {});
+
+    expect(entries.map(({ direction, op }) => `${direction} ${op.path}`)).toEqual([
+      "up whoami",
+      "down whoami",
+      "up invalid",
+      "down invalid",
+    ]);
+    expect(entries[1]).toMatchObject({ result: null, durationMs: expect.any(Number) });
+    expect(entries[3].error).toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
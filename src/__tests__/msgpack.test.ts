@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { initFastRPC, createClient, httpBatchLink } from "../index";
+import { decodeMsgpack, encodeMsgpack } from "../msgpack";
+import { z } from "zod";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("MessagePack", () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe("codec", () => {
+    it("should round-trip JSON values", () => {
+      const value = {
+        small: 1,
+        negative: -33,
+        large: 2 ** 40,
+        float: 1.5,
+        text: "héllo".repeat(20),
+        flags: [true, false, null],
+        nested: { list: Array.from({ length: 20 }, (_, i) => i * 1000) },
+      };
+
+      expect(decodeMsgpack(encodeMsgpack(value))).toEqual(value);
+    });
+
+    it("should encode like JSON.stringify", () => {
+      const date = new Date("2024-01-01T00:00:00.000Z");
+
+      expect(decodeMsgpack(encodeMsgpack({ date, missing: undefined, list: [undefined] }))).toEqual({
+        date: date.toISOString(),
+        list: [null],
+      });
+    });
+
+    it("should keep bigints and binary data", () => {
+      const value = { id: 2n ** 63n, bytes: new Uint8Array([1, 2, 3]) };
+
+      expect(decodeMsgpack(encodeMsgpack(value))).toEqual(value);
+    });
+
+    it("should reject truncated data", () => {
+      expect(() => decodeMsgpack(encodeMsgpack("hello").slice(0, 3))).toThrow(RangeError);
+    });
+  });
+
+  describe("negotiation", () => {
+    const t = initFastRPC.create();
+
+    const appRouter = t.router({
+      getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id, name: "Test User" })),
+      createUser: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }) => ({ id: "2", name })),
+    });
+
+    it("should decode MessagePack bodies and answer in the accepted encoding", async () => {
+      const response = await appRouter.handle(
+        new Request("http://localhost/createUser", {
+          method: "POST",
+          headers: { "Content-Type": "application/msgpack", Accept: "application/msgpack" },
+          body: encodeMsgpack({ name: "Alice" }),
+        })
+      );
+
+      expect(response.headers.get("Content-Type")).toBe("application/msgpack");
+      expect(decodeMsgpack(new Uint8Array(await response.arrayBuffer()))).toEqual({ id: "2", name: "Alice" });
+    });
+
+    it("should keep JSON as the default", async () => {
+      const response = await appRouter.handle(
+        new Request("http://localhost/createUser", {
+          method: "POST",
+          headers: { "Content-Type": "application/msgpack", Accept: "application/msgpack;q=0, application/json" },
+          body: encodeMsgpack({ name: "Alice" }),
+        })
+      );
+
+      expect(response.headers.get("Content-Type")).toContain("application/json");
+      expect(await response.json()).toEqual({ id: "2", name: "Alice" });
+    });
+
+    it("should encode errors and batch responses", async () => {
+      const invalid = await appRouter.handle(
+        new Request("http://localhost/createUser", {
+          method: "POST",
+          headers: { "Content-Type": "application/msgpack", Accept: "application/msgpack" },
+          body: new Uint8Array([0xc1]),
+        })
+      );
+      const batch = await appRouter.handle(
+        new Request("http://localhost/getUser,getUser?batch=1", { headers: { Accept: "application/msgpack" } })
+      );
+
+      expect(invalid.status).toBe(400);
+      expect(decodeMsgpack(new Uint8Array(await invalid.arrayBuffer()))).toMatchObject({
+        error: { code: "PARSE_ERROR", message: "Invalid MessagePack" },
+      });
+      expect(decodeMsgpack(new Uint8Array(await batch.arrayBuffer()))).toMatchObject([
+        { status: 400 },
+        { status: 400 },
+      ]);
+    });
+
+    it("should use MessagePack from the client when configured", async () => {
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost", { encoding: "msgpack" });
+      const batchClient = createClient<typeof appRouter>("http://localhost", {
+        encoding: "msgpack",
+        links: [httpBatchLink()],
+      });
+
+      expect(await client.createUser.mutation({ name: "Alice" })).toEqual({ id: "2", name: "Alice" });
+      expect(await batchClient.getUser.query({ id: "1" })).toEqual({ id: "1", name: "Test User" });
+      await expect(client.getUser.query({ id: 1 as any })).rejects.toMatchObject({ status: 400, code: "BAD_REQUEST" });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers).toMatchObject({ Accept: "application/msgpack", "Content-Type": "application/msgpack" });
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { initFastRPC, createNodeHandler, createNodeMiddleware } from "../index";
+import { z } from "zod";
+
+describe("Node.js adapter", () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  const listen = async (listener: http.RequestListener) => {
+    server = http.createServer(listener);
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  };
+
+  const t = initFastRPC.create();
+
+  it("should serve queries and mutations", async () => {
+    const appRouter = t.router({
+      getUser: t.procedure.input(z.object({ id: z.string() })).query(({ id }) => ({ id, name: "Test User" })),
+      createUser: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }) => ({ id: "2", name })),
+    });
+    const url = await listen(createNodeHandler(appRouter));
+
+    const query = await fetch(`${url}/getUser?input=${encodeURIComponent(JSON.stringify({ id: "1" }))}`);
+    const mutation = await fetch(`${url}/createUser`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Alice" }),
+    });
+    const invalid = await fetch(`${url}/createUser`, { method: "POST", body: "{" });
+
+    expect(await query.json()).toEqual({ id: "1", name: "Test User" });
+    expect(query.headers.get("content-type")).toContain("application/json");
+    expect(await mutation.json()).toEqual({ id: "2", name: "Alice" });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should answer 500 when handling a request fails unexpectedly", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const appRouter = t.router({ ping: t.procedure.query(() => "pong") });
+    vi.spyOn(appRouter, "handle").mockRejectedValueOnce(new Error("boom"));
+    const url = await listen(createNodeHandler(appRouter));
+
+    const failed = await fetch(`${url}/ping`);
+    const served = await fetch(`${url}/ping`);
+
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toMatchObject({ error: { code: "INTERNAL_SERVER_ERROR" } });
+    expect(await served.json()).toBe("pong");
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("should pass request headers and response headers through", async () => {
+    const t = initFastRPC.create({ createContext: (req: Request) => ({ token: req.headers.get("authorization") }) });
+    const appRouter = t.router({
+      whoami: t.procedure
+        .use(async () => new Response("teapot", { status: 418, headers: { "Set-Cookie": "a=1", "X-Custom": "yes" } }))
+        .query(() => null),
+      token: t.procedure.query((input, ctx) => ctx.token),
+    });
+    const url = await listen(createNodeHandler(appRouter));
+
+    const whoami = await fetch(`${url}/whoami`);
+    const token = await fetch(`${url}/token`, { headers: { Authorization: "Bearer secret" } });
+
+    expect(whoami.status).toBe(418);
+    expect(whoami.headers.get("x-custom")).toBe("yes");
+    expect(whoami.headers.get("set-cookie")).toBe("a=1");
+    expect(await whoami.text()).toBe("teapot");
+    expect(await token.json()).toBe("Bearer secret");
+  });
+
+  it("should stream subscriptions and abort them when the client disconnects", async () => {
+    let stopped!: () => void;
+    const aborted = new Promise<void>((resolve) => (stopped = resolve));
+
+    const appRouter = t.router({
+      ticks: t.procedure.subscription(async function* (input, ctx, { signal }) {
+        signal.addEventListener("abort", () => stopped());
+        for (let i = 0; ; i++) {
+          yield i;
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+      }),
+    });
+    const url = await listen(createNodeHandler(appRouter));
+
+    const controller = new AbortController();
+    const response = await fetch(`${url}/ticks`, { signal: controller.signal });
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(new TextDecoder().decode(value)).toContain("data: 0");
+
+    controller.abort();
+    await expect(aborted).resolves.toBeUndefined();
+  });
+
+  it("should reuse bodies parsed by Express/Connect middleware", async () => {
+    const appRouter = t.router({
+      echo: t.procedure.input(z.object({ text: z.string() })).mutation(({ text }) => text),
+    });
+    const middleware = createNodeMiddleware(appRouter);
+
+    const url = await listen((req, res) => {
+      // Stands in for express.json().
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        Object.assign(req, { body: JSON.parse(raw), url: req.url!.replace(/^\/rpc/, "") });
+        middleware(req, res, (error) => {
+          res.statusCode = 500;
+          res.end(String(error));
+        });
+      });
+    });
+
+    const response = await fetch(`${url}/rpc/echo`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: "hello" }),
+    });
+
+    expect(await response.json()).toBe("hello");
+  });
+
+  it("should hand requests outside the base path to the next middleware", async () => {
+    const appRouter = t.router({ ping: t.procedure.query(() => "pong") }, { basePath: "/rpc" });
+    const middleware = createNodeMiddleware(appRouter);
+
+    const url = await listen((req, res) => {
+      middleware(req, res, () => {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => res.end(`next: ${raw}`));
+      });
+    });
+
+    const served = await fetch(`${url}/rpc/ping`);
+    const passed = await fetch(`${url}/upload`, { method: "POST", body: "payload" });
+
+    expect(await served.json()).toBe("pong");
+    expect(await passed.text()).toBe("next: payload");
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { initFastRPC, generateOpenAPI, zodToJsonSchema } from "../index";
+import { z } from "zod";
+
+describe("OpenAPI", () => {
+  const t = initFastRPC.create();
+
+  const appRouter = t.router({
+    getUser: t.procedure
+      .input(z.object({ id: z.string().uuid() }))
+      .output(z.object({ id: z.string(), name: z.string(), email: z.string().email().optional() }))
+      .query(({ id }) => ({ id, name: "John" })),
+    health: t.procedure.query(() => "ok"),
+    posts: t.router({
+      create: t.procedure
+        .input(z.object({ title: z.string().min(1), tags: z.array(z.string()).default([]) }))
+        .mutation((input) => input),
+    }),
+  });
+
+  describe("generateOpenAPI", () => {
+    const document = generateOpenAPI(appRouter, {
+      title: "Example API",
+      version: "1.0.0",
+      baseUrl: "https://example.com/rpc",
+    });
+
+    it("should describe the document and its server", () => {
+      expect(document.openapi).toBe("3.1.0");
+      expect(document.info).toEqual({ title: "Example API", version: "1.0.0" });
+      expect(document.servers).toEqual([{ url: "https://example.com/rpc" }]);
+      expect(Object.keys(document.paths)).toEqual(["/getUser", "/health", "/posts.create"]);
+    });
+
+    it("should describe operations with their meta", () => {
+      const metaRouter = t.router({
+        listUsers: t.procedure
+          .meta({ description: "Lists all users", tags: ["users"], deprecated: "Use users.search" })
+          .query(() => []),
+      });
+
+      const operation = generateOpenAPI(metaRouter, { title: "Example API", version: "1.0.0" }).paths["/listUsers"]
+        .get!;
+
+      expect(operation.description).toBe("Lists all users");
+      expect(operation.tags).toEqual(["users"]);
+      expect(operation.deprecated).toBe(true);
+    });
+
+    it("should map queries to GET with a JSON input search param", () => {
+      const operation = document.paths["/getUser"].get!;
+
+      expect(operation.operationId).toBe("getUser");
+      expect(operation.parameters).toEqual([
+        {
+          name: "input",
+          in: "query",
+          description: "The input, serialized as JSON",
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: { id: { type: "string", format: "uuid" } },
+                required: ["id"],
+              },
+            },
+          },
+        },
+      ]);
+      expect(operation.responses["200"]).toEqual({
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                email: { type: "string", format: "email" },
+              },
+              required: ["id", "name"],
+            },
+          },
+        },
+      });
+      expect(document.paths["/health"].get!.parameters).toBeUndefined();
+    });
+
+    it("should map mutations to POST with a JSON body", () => {
+      const operation = document.paths["/posts.create"].post!;
+
+      expect(document.paths["/posts.create"].get).toBeUndefined();
+      expect(operation.requestBody).toEqual({
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                title: { type: "string", minLength: 1 },
+                tags: { type: "array", items: { type: "string" }, default: [] },
+              },
+              required: ["title"],
+            },
+          },
+        },
+      });
+    });
+
+    it("should document the error envelope", () => {
+      expect(document.paths["/health"].get!.responses.default).toEqual({ $ref: "#/components/responses/Error" });
+      expect(document.components.schemas.Error).toMatchObject({
+        required: ["error"],
+        properties: { error: { required: ["code", "message"] } },
+      });
+    });
+  });
+
+  describe("zodToJsonSchema", () => {
+    it("should convert common schema types", () => {
+      const schema = z.object({
+        age: z.number().int().min(0),
+        role: z.enum(["admin", "user"]),
+        nickname: z.string().nullable(),
+        createdAt: z.date(),
+        extra: z.record(z.boolean()),
+        kind: z.literal("person"),
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: "object",
+        properties: {
+          age: { type: "integer", minimum: 0 },
+          role: { type: "string", enum: ["admin", "user"] },
+          nickname: { anyOf: [{ type: "string" }, { type: "null" }] },
+          createdAt: { type: "string", format: "date-time" },
+          extra: { type: "object", additionalProperties: { type: "boolean" } },
+          kind: { const: "person" },
+        },
+        required: ["age", "role", "nickname", "createdAt", "extra", "kind"],
+      });
+    });
+
+    it("should describe defaults as optional input but required output", () => {
+      const schema = z.object({ page: z.number().default(1) });
+
+      expect(zodToJsonSchema(schema, "input").required).toBeUndefined();
+      expect(zodToJsonSchema(schema, "output").required).toEqual(["page"]);
+    });
+
+    it("should stop at recursive schemas", () => {
+      type Category = { name: string; children: Category[] };
+      const category: z.ZodType<Category> = z.lazy(() => z.object({ name: z.string(), children: z.array(category) }));
+
+      expect(zodToJsonSchema(category)).toEqual({
+        type: "object",
+        properties: { name: { type: "string" }, children: { type: "array", items: {} } },
+        required: ["name", "children"],
+      });
+    });
+  });
+
+  describe("/openapi.json", () => {
+    it("should serve the document when configured", async () => {
+      const router = t.router(
+        { health: t.procedure.query(() => "ok") },
+        { openapi: { title: "Example API", version: "1.0.0" } }
+      );
+
+      const response = await router.handle(new Request("http://localhost/rpc/openapi.json"));
+      const document = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(document.info.title).toBe("Example API");
+      expect(Object.keys(document.paths)).toEqual(["/health"]);
+    });
+
+    it("should not serve the document by default", async () => {
+      const response = await appRouter.handle(new Request("http://localhost/openapi.json"));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { initFastRPC, rateLimit, createMemoryRateLimitStore } from "../index";
+import type { RateLimitStore } from "../index";
+
+describe("Rate Limiting", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const t = initFastRPC.create({
+    createContext: (req: Request) => ({ ip: req.headers.get("x-real-ip") ?? "unknown" }),
+  });
+
+  const call = (router: { handle(req: Request): Promise<Response> }, path: string, ip = "1.1.1.1") =>
+    router.handle(new Request(`http://localhost/${path}`, { headers: { "x-real-ip": ip } }));
+
+  it("should limit calls per key in fixed windows", async () => {
+    vi.useFakeTimers();
+    const appRouter = t.router({
+      ping: t.procedure.use(rateLimit({ key: ({ ctx }) => ctx.ip, limit: 2, windowMs: 10_000 })).query(() => "pong"),
+    });
+
+    const first = await call(appRouter, "ping");
+    await call(appRouter, "ping");
+    const limited = await call(appRouter, "ping");
+    const otherKey = await call(appRouter, "ping", "2.2.2.2");
+
+    expect(first.headers.get("RateLimit-Limit")).toBe("2");
+    expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(first.headers.get("RateLimit-Reset")).toBe("10");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(limited.headers.get("Retry-After")).toBe("10");
+    expect(await limited.json()).toMatchObject({ error: { code: "TOO_MANY_REQUESTS" } });
+    expect(otherKey.status).toBe(200);
+
+    vi.advanceTimersByTime(10_000);
+    expect((await call(appRouter, "ping")).status).toBe(200);
+  });
+
+  it("should refill token buckets over time", async () => {
+    vi.useFakeTimers();
+    const appRouter = t.router(
+      { ping: t.procedure.query(() => "pong") },
+      {
+        middleware: [
+          rateLimit({ algorithm: "token-bucket", key: ({ ctx }) => ctx.ip, limit: 3, refillPerSecond: 0.5 }),
+        ],
+      }
+    );
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) statuses.push((await call(appRouter, "ping")).status);
+    const limited = await call(appRouter, "ping");
+
+    expect(statuses).toEqual([200, 200, 200, 429]);
+    expect(limited.headers.get("Retry-After")).toBe("2");
+
+    vi.advanceTimersByTime(2000);
+    const refilled = await call(appRouter, "ping");
+    expect(refilled.status).toBe(200);
+    expect(refilled.headers.get("RateLimit-Remaining")).toBe("0");
+  });
+
+  it("should consume from custom stores with the procedure path", async () => {
+    const memory = createMemoryRateLimitStore();
+    const keys: string[] = [];
+    const store: RateLimitStore = {
+      consume: async (key, rule) => {
+        keys.push(key);
+        return memory.consume(key, rule);
+      },
+    };
+    const limiter = rateLimit({ key: ({ ctx, path }) => `${ctx.ip}:${path}`, limit: 1, windowMs: 1000, store });
+    const appRouter = t.router({
+      a: t.procedure.use(limiter).query(() => "a"),
+      b: t.procedure.use(limiter).query(() => "b"),
+    });
+
+    expect((await call(appRouter, "a")).status).toBe(200);
+    expect((await call(appRouter, "b")).status).toBe(200);
+    expect((await call(appRouter, "a")).status).toBe(429);
+    expect(keys).toEqual(["1.1.1.1:a", "1.1.1.1:b", "1.1.1.1:a"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { initFastRPC, createClient, httpBatchLink, structuredTransformer } from "../index";
+import { z } from "zod";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("Transformer", () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe("structuredTransformer", () => {
+    const roundTrip = (value: unknown) =>
+      structuredTransformer.deserialize(JSON.parse(JSON.stringify(structuredTransformer.serialize(value))));
+
+    it("should round-trip values JSON cannot represent", () => {
+      const value = {
+        date: new Date("2024-01-02T03:04:05.000Z"),
+        map: new Map<unknown, unknown>([["a", new Set([1n, 2n])]]),
+        pattern: /fast-rpc/gi,
+        bytes: new Uint8Array([1, 2, 3]),
+        big: new BigInt64Array([-1n]),
+        missing: undefined,
+        list: [undefined, Infinity, NaN],
+        nested: { $t: "not a tag" },
+      };
+
+      expect(roundTrip(value)).toEqual(value);
+    });
+
+    it("should keep plain JSON values unchanged", () => {
+      const value = { id: "1", tags: ["a"], count: 2, active: true, parent: null };
+
+      expect(structuredTransformer.serialize(value)).toEqual(value);
+    });
+
+    it("should keep __proto__ keys as own properties", () => {
+      const value = structuredTransformer.deserialize(JSON.parse('{"name":"x","__proto__":{"isAdmin":true}}')) as any;
+
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(value.isAdmin).toBeUndefined();
+      expect(Object.keys(value)).toEqual(["name", "__proto__"]);
+    });
+  });
+
+  describe("server and client", () => {
+    const t = initFastRPC.create({ transformer: structuredTransformer });
+
+    const appRouter = t.router({
+      getEvent: t.procedure.input(z.object({ since: z.date() })).query(({ since }) => ({
+        since,
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        attendees: new Set(["ada"]),
+      })),
+      addEvent: t.procedure
+        .input(z.object({ at: z.date(), budget: z.bigint() }))
+        .mutation(({ at, budget }) => ({ at, budget: budget * 2n })),
+    });
+
+    const since = new Date("2023-12-31T00:00:00.000Z");
+
+    it("should deserialize inputs and serialize results", async () => {
+      const input = encodeURIComponent(JSON.stringify(structuredTransformer.serialize({ since })));
+      const response = await appRouter.handle(new Request(`http://localhost/getEvent?input=${input}`));
+
+      expect(response.status).toBe(200);
+      expect(structuredTransformer.deserialize(await response.json())).toEqual({
+        since,
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        attendees: new Set(["ada"]),
+      });
+    });
+
+    it("should answer malformed tagged inputs with PARSE_ERROR", async () => {
+      const payloads = [
+        { $t: "BigInt", v: "abc" },
+        { $t: "RegExp", v: ["(", ""] },
+        { $t: "Map", v: 5 },
+      ];
+
+      for (const payload of payloads) {
+        const input = encodeURIComponent(JSON.stringify({ since: payload }));
+        const response = await appRouter.handle(new Request(`http://localhost/getEvent?input=${input}`));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ error: { code: "PARSE_ERROR", message: "Invalid input" } });
+      }
+    });
+
+    it("should fail only the batch entries whose input cannot be deserialized", async () => {
+      const input = encodeURIComponent(
+        JSON.stringify({ 0: structuredTransformer.serialize({ since }), 1: { since: { $t: "BigInt", v: "abc" } } })
+      );
+      const response = await appRouter.handle(new Request(`http://localhost/getEvent,getEvent?batch=1&input=${input}`));
+      const [ok, failed] = await response.json();
+
+      expect(ok.status).toBe(200);
+      expect(failed).toMatchObject({ status: 400, body: { error: { code: "PARSE_ERROR" } } });
+    });
+
+    it("should send and receive rich types through the client", async () => {
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost", { transformer: structuredTransformer });
+      const event = await client.getEvent.query({ since });
+      const added = await client.addEvent.mutation({ at: since, budget: 21n });
+
+      expect(event.createdAt).toBeInstanceOf(Date);
+      expect(event.attendees.has("ada")).toBe(true);
+      expect(added).toEqual({ at: since, budget: 42n });
+    });
+
+    it("should transform batched calls", async () => {
+      mockFetch.mockImplementation((url: string, init?: RequestInit) => appRouter.handle(new Request(url, init)));
+
+      const client = createClient<typeof appRouter>("http://localhost", {
+        links: [httpBatchLink()],
+        transformer: structuredTransformer,
+      });
+      const [event, added] = await Promise.all([
+        client.getEvent.query({ since }),
+        client.addEvent.mutation({ at: since, budget: 1n }),
+      ]);
+
+      expect(event.since).toEqual(since);
+      expect(added.budget).toBe(2n);
+    });
+  });
+});
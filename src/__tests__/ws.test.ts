@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import {
+  initFastRPC,
+  createClient,
+  applyWebSocketHandler,
+  createWSClient,
+  wsLink,
+  isFastRPCClientError,
+  WebSocketLike,
+} from "../index";
+
+/**
+ * Two connected in-process sockets; what one sends, the other receives.
+ */
+function createSocketPair(): [WebSocketLike, WebSocketLike] {
+  const create = () => {
+    const target = new EventTarget();
+    const socket = {
+      readyState: 0,
+      peer: undefined as any,
+      send(data: string) {
+        queueMicrotask(() => socket.peer.dispatch("message", { data }));
+      },
+      close() {
+        if (socket.readyState === 3) return;
+        socket.readyState = 3;
+        socket.dispatch("close");
+        socket.peer.close();
+      },
+      dispatch(type: string, init: { data?: unknown } = {}) {
+        target.dispatchEvent(Object.assign(new Event(type), init));
+      },
+      addEventListener(type: string, listener: (event: any) => void) {
+        target.addEventListener(type, listener);
+      },
+    };
+    return socket;
+  };
+
+  const client = create();
+  const server = create();
+  client.peer = server;
+  server.peer = client;
+
+  queueMicrotask(() => {
+    client.readyState = server.readyState = 1;
+    client.dispatch("open");
+    server.dispatch("open");
+  });
+
+  return [client, server];
+}
+
+const ticksStopped = vi.fn();
+
+const t = initFastRPC.create({
+  createContext: (req: Request) => ({ token: req.headers.get("authorization") }),
+});
+
+const appRouter = t.router({
+  whoami: t.procedure.query((input, ctx) => ({ token: ctx.token })),
+  users: t.router({
+    create: t.procedure.input(z.object({ name: z.string() })).mutation(({ name }) => ({ id: "1", name })),
+    remove: t.procedure.mutation((input, ctx) => {
+      ctx.res.status(204);
+    }),
+  }),
+  countdown: t.procedure.input(z.object({ from: z.number() })).subscription(async function* ({ from }) {
+    for (let i = from; i > 0; i--) yield i;
+  }),
+  ticks: t.procedure.subscription(async function* (input, ctx, { signal }) {
+    try {
+      while (!signal.aborted) {
+        yield "tick";
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    } finally {
+      ticksStopped();
+    }
+  }),
+});
+
+function connect() {
+  const [clientSocket, serverSocket] = createSocketPair();
+  applyWebSocketHandler(appRouter, serverSocket, {
+    req: new Request("http://localhost/ws", { headers: { Authorization: "Bearer abc" } }),
+  });
+  const wsClient = createWSClient({ socket: clientSocket });
+  const client = createClient<typeof appRouter>("http://localhost", { links: [wsLink(wsClient)] });
+  return { client, wsClient };
+}
+
+describe("WebSocket transport", () => {
+  it("should run queries and mutations with the upgrade request's context", async () => {
+    const { client, wsClient } = connect();
+
+    const [me, user] = await Promise.all([client.whoami.query(), client.users.create.mutation({ name: "Alice" })]);
+
+    expect(me).toEqual({ token: "Bearer abc" });
+    expect(user).toEqual({ id: "1", name: "Alice" });
+    wsClient.close();
+  });
+
+  it("should send the headers of a call with its message", async () => {
+    const { client, wsClient } = connect();
+
+    const me = await client.whoami.query(undefined, { headers: { authorization: "Bearer override" } });
+
+    expect(me).toEqual({ token: "Bearer override" });
+    wsClient.close();
+  });
+
+  it("should resolve responses without a body to undefined", async () => {
+    const { client, wsClient } = connect();
+
+    expect(await client.users.remove.mutation()).toBeUndefined();
+    wsClient.close();
+  });
+
+  it("should reject with the server error envelope", async () => {
+    const { client, wsClient } = connect();
+
+    const error = await client.users.create.mutation({ name: 1 as any }).catch((e) => e);
+
+    expect(isFastRPCClientError(error)).toBe(true);
+    expect(error.status).toBe(400);
+    expect(error.code).toBe("BAD_REQUEST");
+    expect(error.path).toBe("users.create");
+    wsClient.close();
+  });
+
+  it("should answer messages that are not objects with BAD_REQUEST", async () => {
+    const [clientSocket, serverSocket] = createSocketPair();
+    applyWebSocketHandler(appRouter, serverSocket);
+    const replies: unknown[] = [];
+    clientSocket.addEventListener("message", (event) => replies.push(JSON.parse(event.data)));
+
+    clientSocket.send("null");
+    clientSocket.send("5");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const invalid = {
+      id: null,
+      type: "error",
+      status: 400,
+      body: { error: expect.objectContaining({ code: "BAD_REQUEST" }) },
+    };
+    expect(replies).toEqual([invalid, invalid]);
+    clientSocket.close();
+  });
+
+  it("should stream subscriptions until they complete", async () => {
+    const { client, wsClient } = connect();
+    const onStarted = vi.fn();
+    const data: number[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      client.countdown.subscribe(
+        { from: 3 },
+        { onStarted, onData: (n) => data.push(n), onComplete: resolve, onError: reject }
+      );
+    });
+
+    expect(onStarted).toHaveBeenCalledOnce();
+    expect(data).toEqual([3, 2, 1]);
+    wsClient.close();
+  });
+
+  it("should stop server-side iteration on unsubscribe", async () => {
+    const { client, wsClient } = connect();
+    const onComplete = vi.fn();
+    let received = 0;
+
+    await new Promise<void>((resolve) => {
+      const subscription = client.ticks.subscribe(undefined, {
+        onData: () => {
+          if (++received === 2) {
+            subscription.unsubscribe();
+            resolve();
+          }
+        },
+        onComplete,
+      });
+    });
+    await vi.waitFor(() => expect(ticksStopped).toHaveBeenCalled());
+
+    expect(received).toBe(2);
+    expect(onComplete).not.toHaveBeenCalled();
+    wsClient.close();
+  });
+
+  it("should reject pending calls when the socket closes", async () => {
+    const { client, wsClient } = connect();
+
+    const pending = client.whoami.query();
+    wsClient.close();
+
+    await expect(pending).rejects.toThrow("WebSocket closed");
+  });
+});
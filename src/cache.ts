@@ -0,0 +1,114 @@
+/**
+ * HTTP caching of query responses, set per procedure with
+ * `.meta({ cache: { maxAge: 60 } })`.
+ */
+type CacheOptions = {
+  /** Seconds a response stays fresh (`max-age`); also the TTL of a server-side `QueryCache`. */
+  maxAge: number;
+  /** Seconds a stale response may still be served while it is revalidated. */
+  staleWhileRevalidate?: number;
+  /** The response depends on the user: only browsers may cache it, never shared or server-side caches. */
+  private?: boolean;
+};
+
+/**
+ * Caches the results of queries with `cache` meta on the server, keyed by
+ * procedure path and input. Middleware still runs on a hit; the handler does not.
+ */
+type QueryCache = {
+  get(path: string, input: unknown): { value: unknown } | undefined;
+  set(path: string, input: unknown, value: unknown, ttlMs: number): void;
+  /** Drops the entry for `input`, or every entry of the procedure when `input` is left out. */
+  invalidate(path: string, input?: unknown): void;
+  clear(): void;
+};
+
+type QueryCacheOptions = {
+  /** Entries kept before the oldest ones are evicted. Defaults to 1000. */
+  maxEntries?: number;
+};
+
+export type { CacheOptions, QueryCache, QueryCacheOptions };
+
+const defaultMaxEntries = 1000;
+
+/** `JSON.stringify` with sorted object keys, so equal inputs share a cache key. */
+function stableStringify(value: unknown): string {
+  return (
+    JSON.stringify(value, (key, item) => {
+      if (item === null || typeof item !== "object" || Array.isArray(item)) return item;
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .map((name) => [name, item[name]])
+      );
+    }) ?? "undefined"
+  );
+}
+
+/** An in-memory `QueryCache`. Pass it as the `cache` option of a router. */
+export function createQueryCache(options: QueryCacheOptions = {}): QueryCache {
+  const maxEntries = options.maxEntries ?? defaultMaxEntries;
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  const keyOf = (path: string, input: unknown) => `${path}\0${stableStringify(input)}`;
+
+  return {
+    get(path, input) {
+      const key = keyOf(path, input);
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return { value: entry.value };
+    },
+    set(path, input, value, ttlMs) {
+      const key = keyOf(path, input);
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      // Maps iterate in insertion order, so the first keys are the oldest.
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+    invalidate(path, input) {
+      if (input !== undefined) {
+        entries.delete(keyOf(path, input));
+        return;
+      }
+      for (const key of entries.keys()) {
+        if (key.startsWith(`${path}\0`)) entries.delete(key);
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+export function cacheControl(options: CacheOptions): string {
+  const directives = [options.private ? "private" : "public", `max-age=${options.maxAge}`];
+  if (options.staleWhileRevalidate !== undefined) {
+    directives.push(`stale-while-revalidate=${options.staleWhileRevalidate}`);
+  }
+  return directives.join(", ");
+}
+
+/** A strong ETag: the base64url SHA-1 of the encoded body. */
+export async function computeETag(body: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-1", body));
+  const base64 = btoa(String.fromCharCode(...digest));
+  return `"${base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")}"`;
+}
+
+/** Whether an `If-None-Match` header matches `etag`, comparing weakly as RFC 9110 asks. */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const opaque = etag.replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => {
+    tag = tag.trim();
+    return tag === "*" || tag.replace(/^W\//, "") === opaque;
+  });
+}
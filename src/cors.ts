@@ -0,0 +1,77 @@
+type CorsOptions = {
+  /**
+   * Origins allowed to call the API: `*` (the default), an exact origin, a
+   * pattern, a list of either, or a function deciding per origin.
+   */
+  origin?: string | RegExp | (string | RegExp)[] | ((origin: string) => boolean | Promise<boolean>);
+  /**
+   * Allow cookies and `Authorization` headers. The matched origin is echoed
+   * instead of `*`, so `origin` must be set: with `*`, no CORS headers are sent.
+   */
+  credentials?: boolean;
+  /** Request headers allowed in preflights. Defaults to the ones the browser asks for. */
+  allowedHeaders?: string[];
+  /** Response headers readable by the browser, besides the CORS-safelisted ones. */
+  exposedHeaders?: string[];
+  /** How long, in seconds, browsers may cache a preflight response. */
+  maxAge?: number;
+};
+
+export type { CorsOptions };
+
+async function isAllowedOrigin(origin: string, allowed: NonNullable<CorsOptions["origin"]>): Promise<boolean> {
+  if (typeof allowed === "function") return allowed(origin);
+  const patterns = Array.isArray(allowed) ? allowed : [allowed];
+  return patterns.some((pattern) => (typeof pattern === "string" ? pattern === origin : pattern.test(origin)));
+}
+
+/**
+ * Adds CORS headers to a response of `handle`. Preflights are recognized by
+ * `Access-Control-Request-Method` and allow the methods the response's `Allow`
+ * header lists. Requests from origins that are not allowed get no CORS headers,
+ * so browsers block them.
+ */
+export async function applyCors(req: Request, response: Response, options: CorsOptions): Promise<Response> {
+  const origin = req.headers.get("Origin");
+  const allowed = options.origin ?? "*";
+  const headers: Record<string, string> = {};
+  const vary: string[] = [];
+
+  if (allowed === "*") {
+    // Echoing any origin with credentials would let every site read responses as the user.
+    if (!options.credentials) headers["Access-Control-Allow-Origin"] = "*";
+  } else {
+    vary.push("Origin");
+    if (origin !== null && (await isAllowedOrigin(origin, allowed))) {
+      headers["Access-Control-Allow-Origin"] = origin;
+    }
+  }
+
+  if (headers["Access-Control-Allow-Origin"]) {
+    if (options.credentials) headers["Access-Control-Allow-Credentials"] = "true";
+
+    if (req.method === "OPTIONS" && req.headers.has("Access-Control-Request-Method")) {
+      const methods = response.headers.get("Allow");
+      if (methods) headers["Access-Control-Allow-Methods"] = methods;
+
+      const requestHeaders = req.headers.get("Access-Control-Request-Headers");
+      if (options.allowedHeaders) {
+        headers["Access-Control-Allow-Headers"] = options.allowedHeaders.join(", ");
+      } else if (requestHeaders) {
+        headers["Access-Control-Allow-Headers"] = requestHeaders;
+        vary.push("Access-Control-Request-Headers");
+      }
+      if (options.maxAge !== undefined) headers["Access-Control-Max-Age"] = String(options.maxAge);
+    } else if (options.exposedHeaders?.length) {
+      headers["Access-Control-Expose-Headers"] = options.exposedHeaders.join(", ");
+    }
+  }
+
+  if (!Object.keys(headers).length && !vary.length) return response;
+
+  // Responses from `fetch` or middleware may have immutable headers.
+  const decorated = new Response(response.body, response);
+  for (const [name, value] of Object.entries(headers)) decorated.headers.set(name, value);
+  if (vary.length) decorated.headers.append("Vary", vary.join(", "));
+  return decorated;
+}
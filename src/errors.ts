@@ -0,0 +1,152 @@
+import { z } from "zod";
+
+export const errorCodeToHttpStatus = {
+  PARSE_ERROR: 400,
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_SUPPORTED: 405,
+  CONFLICT: 409,
+  TOO_MANY_REQUESTS: 429,
+  INTERNAL_SERVER_ERROR: 500,
+  OUTPUT_VALIDATION_ERROR: 500,
+} as const;
+
+type FastRPCErrorCode = keyof typeof errorCodeToHttpStatus;
+
+/**
+ * The `error` member of every error response body.
+ */
+type ErrorShape = {
+  code: FastRPCErrorCode;
+  message: string;
+  data?: unknown;
+};
+
+type ErrorFormatter = (opts: {
+  error: FastRPCError;
+  shape: ErrorShape;
+  path?: string;
+  input?: unknown;
+  ctx?: unknown;
+}) => unknown;
+
+export type { FastRPCErrorCode, ErrorShape, ErrorFormatter };
+
+/**
+ * Throw from a handler or middleware to fail the call with a specific code.
+ * The code determines the HTTP status of the response.
+ */
+export class FastRPCError extends Error {
+  readonly code: FastRPCErrorCode;
+  readonly data?: unknown;
+  readonly cause?: unknown;
+
+  constructor(opts: { code: FastRPCErrorCode; message?: string; data?: unknown; cause?: unknown }) {
+    super(opts.message ?? opts.code);
+    this.name = "FastRPCError";
+    this.code = opts.code;
+    this.data = opts.data;
+    this.cause = opts.cause;
+  }
+
+  get status(): number {
+    return errorCodeToHttpStatus[this.code];
+  }
+}
+
+/**
+ * Normalizes anything thrown during a call. Zod errors become `BAD_REQUEST`,
+ * everything else that is not already a `FastRPCError` becomes an opaque
+ * `INTERNAL_SERVER_ERROR`.
+ */
+export function toFastRPCError(cause: unknown): FastRPCError {
+  if (cause instanceof FastRPCError) return cause;
+  if (cause instanceof z.ZodError) {
+    return new FastRPCError({ code: "BAD_REQUEST", message: "Input validation failed", cause });
+  }
+  return new FastRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Internal server error", cause });
+}
+
+export function getErrorShape(error: FastRPCError): ErrorShape {
+  const shape: ErrorShape = { code: error.code, message: error.message };
+  if (error.data !== undefined) {
+    shape.data = error.data;
+  } else if (error.code === "BAD_REQUEST" && error.cause instanceof z.ZodError) {
+    shape.data = { issues: error.cause.issues };
+  }
+  return shape;
+}
+
+/**
+ * Thrown by `createClient` when the server answers with an error response.
+ */
+export class FastRPCClientError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly path: string;
+  readonly data?: unknown;
+  /** Zod issues when the server rejected the input, otherwise empty. */
+  readonly issues: z.ZodIssue[];
+
+  constructor(opts: { message: string; status: number; path: string; code?: string; data?: unknown }) {
+    super(opts.message);
+    this.name = "FastRPCClientError";
+    this.status = opts.status;
+    this.code = opts.code;
+    this.path = opts.path;
+    this.data = opts.data;
+
+    const issues = (opts.data as { issues?: unknown } | undefined)?.issues;
+    this.issues = Array.isArray(issues) ? issues : [];
+  }
+
+  /**
+   * Builds the error from a parsed response body, which is expected to hold the
+   * `{ error: { code, message, data } }` envelope but may be anything.
+   */
+  static fromResponseBody(body: unknown, opts: { status: number; path: string }): FastRPCClientError {
+    const error = (body as { error?: unknown } | undefined)?.error;
+    if (error && typeof error === "object") {
+      const { code, message, data } = error as Partial<ErrorShape>;
+      return new FastRPCClientError({
+        ...opts,
+        code,
+        data,
+        message: typeof message === "string" ? message : `HTTP error! status: ${opts.status}`,
+      });
+    }
+    return new FastRPCClientError({
+      ...opts,
+      message: typeof error === "string" ? error : `HTTP error! status: ${opts.status}`,
+    });
+  }
+}
+
+export function isFastRPCClientError(error: unknown): error is FastRPCClientError {
+  return error instanceof FastRPCClientError;
+}
+
+/**
+ * Thrown by `createClient` when a call is aborted through its `signal` or
+ * takes longer than its `timeoutMs`.
+ */
+export class FastRPCAbortError extends Error {
+  readonly path: string;
+  /** Whether the call ran past `timeoutMs` rather than being aborted. */
+  readonly timedOut: boolean;
+  readonly cause?: unknown;
+
+  constructor(opts: { path: string; timedOut: boolean; cause?: unknown }) {
+    super(opts.timedOut ? `Call to "${opts.path}" timed out` : `Call to "${opts.path}" was aborted`);
+    this.name = "FastRPCAbortError";
+    this.path = opts.path;
+    this.timedOut = opts.timedOut;
+    this.cause = opts.cause;
+  }
+}
+
+export function isFastRPCAbortError(error: unknown): error is FastRPCAbortError {
+  return error instanceof FastRPCAbortError;
+}
@@ -1,7 +1,55 @@
 import { z } from "zod";
+import { FastRPCAbortError, FastRPCError, errorCodeToHttpStatus, getErrorShape, toFastRPCError } from "./errors";
+import type { FastRPCErrorCode } from "./errors";
+import type { ErrorFormatter } from "./errors";
+import { cacheControl, computeETag, matchesETag } from "./cache";
+import type { CacheOptions, QueryCache } from "./cache";
+import { applyCors } from "./cors";
+import type { CorsOptions } from "./cors";
+import { composeLinks, httpLink } from "./links";
+import type { CallOptions, ClientOptions, ProcedureType, SubscriptionObserver, Unsubscribable } from "./links";
+import { acceptsMsgpack, decodeMsgpack, encodeMsgpack, isMsgpack, msgpackContentType } from "./msgpack";
+import { zodToJsonSchema } from "./json-schema";
+import type { JSONSchema } from "./json-schema";
+import { createOpenAPIDocument } from "./openapi";
+import type { OpenAPIOptions } from "./openapi";
+import { createResponseMeta } from "./response";
+import type { ResponseMeta } from "./response";
+import { Tracked, createEventStream } from "./sse";
+import { defaultTransformer } from "./transformer";
+import type { DataTransformer } from "./transformer";
+import { flattenProcedures, readResponseBody } from "./utils";
 
-type Handler<TInput, TOutput> = (input: TInput, ctx: Context) => Promise<TOutput> | TOutput;
+/** Found on `ctx` in every handler and middleware, whatever the context type. */
+type RequestContext = {
+  /** Sets headers, cookies and the status of the response. */
+  res: ResponseMeta;
+  /** Aborts when the client disconnects or cancels the call, so long-running work can stop. */
+  signal: AbortSignal;
+};
+
+type Handler<TInput, TOutput, TContext = Context> = (
+  input: TInput,
+  ctx: TContext & RequestContext
+) => Promise<TOutput> | TOutput;
+
+type SubscriptionHandlerOptions = {
+  /** Aborts when the client disconnects. */
+  signal: AbortSignal;
+  /** The `Last-Event-ID` sent by a reconnecting client; see `tracked()`. */
+  lastEventId?: string;
+};
 
+type SubscriptionHandler<TInput, TOutput, TContext = Context> = (
+  input: TInput,
+  ctx: TContext & RequestContext,
+  opts: SubscriptionHandlerOptions
+) => AsyncIterable<TOutput> | Promise<AsyncIterable<TOutput>>;
+
+/**
+ * Default context shape, used when no `createContext` is configured. Pass a
+ * `createContext` to `initFastRPC.create()` to replace it with your own type.
+ */
 type Context = {
   user?: {
     id: string;
@@ -11,50 +59,329 @@ type Context = {
   isAdmin?: boolean;
 };
 
+declare const contextTag: unique symbol;
+
+/**
+ * What `next()` resolves to: the result of the rest of the chain, whatever its
+ * type; cast it to read it. The tag only exists in the type system; it carries
+ * the context given to `next`, which is how `.use()` infers the context of
+ * later middleware and the handler.
+ */
+type MiddlewareResult<TContext> = {
+  readonly [contextTag]?: TContext;
+};
+
+// Middleware may resolve to any value: what `next()` resolved to, a changed
+// result or a `Response`. Only a `MiddlewareResult` carries a context along.
 type MiddlewareFunction<TContext, TNextContext = TContext> = (opts: {
-  ctx: TContext;
-  next: (opts: { ctx: TNextContext }) => Promise<any>;
-}) => Promise<any>;
+  ctx: TContext & RequestContext;
+  /** The dotted path of the procedure being called, e.g. `users.get`. */
+  path: string;
+  type: ProcedureType;
+  /** What the procedure declared with `.meta()`. */
+  meta: ProcedureMeta;
+  next: <TNext = TContext>(opts?: { ctx: TNext }) => Promise<MiddlewareResult<TNext>>;
+}) => Promise<MiddlewareResult<TNextContext> | {} | null | undefined>;
+
+/**
+ * Static information about a procedure, set with `.meta()`. Middleware
+ * receives it with every call, and `listProcedures()` and OpenAPI documents
+ * include it.
+ */
+type ProcedureMeta = {
+  /** What the procedure does, for docs and admin tooling. */
+  description?: string;
+  tags?: string[];
+  /** Marks the procedure as deprecated; a string explains what to use instead. */
+  deprecated?: boolean | string;
+  /** Roles a caller needs. Not enforced by FastRPC; check them in middleware. */
+  roles?: string[];
+  /** HTTP caching of the procedure's responses; queries only. */
+  cache?: CacheOptions;
+};
+
+/** One entry of `router.listProcedures()`. */
+type ProcedureInfo = {
+  /** The dotted path, e.g. `users.get`. */
+  path: string;
+  type: ProcedureType;
+  input?: JSONSchema;
+  output?: JSONSchema;
+  meta: ProcedureMeta;
+};
+
+/**
+ * Builds the context for a single request, e.g. by reading the session from
+ * its cookies. May be sync or async.
+ */
+type CreateContextFn<TContext> = (req: Request) => TContext | Promise<TContext>;
 
-type BaseProcedure<TInput, TOutput> = {
+type FastRPCOptions<TContext> = {
+  createContext?: CreateContextFn<TContext>;
+  /**
+   * Shapes the `error` member of error responses. Receives the default shape,
+   * which already carries zod issues under `data.issues`.
+   */
+  errorFormatter?: ErrorFormatter;
+  /** Maximum number of calls accepted in one batch request. Defaults to 10. */
+  maxBatchSize?: number;
+  /** Interval of the heartbeat comments sent on subscription streams. Defaults to 15s. */
+  ssePingIntervalMs?: number;
+  /** When set, `GET /openapi.json` answers with the router's OpenAPI document. */
+  openapi?: OpenAPIOptions;
+  /** Converts inputs and results to and from the wire. Clients must use the same one. */
+  transformer?: DataTransformer;
+  /**
+   * Serve procedures only below this path, e.g. `/api/rpc`, and match the rest
+   * of the pathname exactly. Without it, the longest trailing match of any
+   * pathname is served.
+   */
+  basePath?: string;
+  /**
+   * Also accept queries as POST with the input in the body, for inputs too
+   * large for a URL. Queries only accept GET and HEAD by default.
+   */
+  allowPostQueries?: boolean;
+  /** Answers CORS preflights and adds CORS headers to every response. */
+  cors?: CorsOptions;
+  /**
+   * Caches the results of public queries with `cache` meta on the server;
+   * see `createQueryCache()`.
+   */
+  cache?: QueryCache;
+  /**
+   * Runs before the middleware of every procedure, e.g. `[rateLimit({ ... })]`,
+   * also when the router is mounted in another one.
+   */
+  middleware?: MiddlewareFunction<TContext>[];
+};
+
+type BaseProcedure<TInput, TOutput, TContext = any> = {
   input: TInput;
   output?: TOutput;
-  _handler: Handler<TInput, TOutput>;
+  _handler: Handler<TInput, TOutput, TContext>;
   _middleware?: MiddlewareFunction<any>[];
+  _meta?: ProcedureMeta;
 };
 
-type QueryProcedure<TInput, TOutput> = BaseProcedure<TInput, TOutput> & {
+type QueryProcedure<TInput, TOutput, TContext = any> = BaseProcedure<TInput, TOutput, TContext> & {
   _type: "query";
 };
 
-type MutationProcedure<TInput, TOutput> = BaseProcedure<TInput, TOutput> & {
+type MutationProcedure<TInput, TOutput, TContext = any> = BaseProcedure<TInput, TOutput, TContext> & {
   _type: "mutation";
 };
 
-type Procedure<TInput, TOutput> = QueryProcedure<TInput, TOutput> | MutationProcedure<TInput, TOutput>;
+type SubscriptionProcedure<TInput, TOutput, TContext = any> = Omit<
+  BaseProcedure<TInput, TOutput, TContext>,
+  "_handler"
+> & {
+  _type: "subscription";
+  _handler: SubscriptionHandler<TInput, any, TContext>;
+};
+
+type Procedure<TInput, TOutput> =
+  | QueryProcedure<TInput, TOutput>
+  | MutationProcedure<TInput, TOutput>
+  | SubscriptionProcedure<TInput, TOutput>;
+
+type ProcedureRecord = {
+  [key: string]: Procedure<any, any> | AnyRouter;
+};
+
+type AnyRouter = FastRPC<any> & { procedures: ProcedureRecord };
 
 const emptyObject = {};
 
-const notFoundResponse = Response.json({ error: "Not found" }, { status: 404 });
-const errorResponse = Response.json({ error: "Unknown error" }, { status: 500 });
+// The `middleware` each router was created with, run for its procedures when
+// it is mounted in another router.
+const routerMiddleware = new WeakMap<AnyRouter, MiddlewareFunction<any>[]>();
+
+// Query inputs travel in the URL, so keep them well under common proxy limits.
+const maxQueryInputLength = 8192;
+
+const defaultMaxBatchSize = 10;
+
+const defaultSsePingIntervalMs = 15_000;
+
+/** What a request's URL points at. */
+type RouteMatch = { type: "procedure"; path: string } | { type: "batch" } | { type: "openapi" };
+
+/** The methods a procedure accepts, besides `OPTIONS`. */
+function allowedMethods(type: ProcedureType, options: FastRPCOptions<any>): string[] {
+  if (type === "mutation") return ["POST"];
+  if (type === "subscription") return ["GET"];
+  return options.allowPostQueries ? ["GET", "HEAD", "POST"] : ["GET", "HEAD"];
+}
+
+// `/api/a,b.c` holds the calls `a` and `b.c` under the prefix `/api/`.
+function splitBatchPath(pathname: string): { prefix: string; names: string[] } {
+  const prefixEnd = pathname.lastIndexOf("/") + 1;
+  return { prefix: pathname.slice(0, prefixEnd), names: pathname.slice(prefixEnd).split(",") };
+}
+
+function allowHeader(methods: string[]): string {
+  return [...methods, "OPTIONS"].join(", ");
+}
+
+// `api/rpc/` and `/api/rpc` both become `/api/rpc`; `/` becomes "".
+function normalizeBasePath(basePath: string | undefined): string | undefined {
+  if (basePath === undefined) return undefined;
+  const segments = basePath.split("/").filter(Boolean);
+  return segments.length ? `/${segments.join("/")}` : "";
+}
+
+function parseOutput(schema: z.ZodType<any>, value: unknown): unknown {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new FastRPCError({
+      code: "OUTPUT_VALIDATION_ERROR",
+      message: "Output validation failed",
+      cause: parsed.error,
+    });
+  }
+  return parsed.data;
+}
+
+// Malformed tagged values (`{ $t: "BigInt", v: "abc" }`) are the client's fault, not a 500.
+function deserializeInput(transformer: DataTransformer, raw: unknown): unknown {
+  // No input reaches validation as `undefined`, so optional inputs and defaults apply.
+  if (raw === undefined) return undefined;
+  try {
+    return transformer.deserialize(raw);
+  } catch (cause) {
+    throw new FastRPCError({ code: "PARSE_ERROR", message: "Invalid input", cause });
+  }
+}
+
+/**
+ * Builds the `api.users.get.query(input)` proxy shared by clients and callers.
+ * `call` receives the procedure type, the dotted path and the arguments.
+ */
+function createProcedureProxy(call: (type: ProcedureType, path: string, args: unknown[]) => unknown): any {
+  const createProxy = (path: string[]): any =>
+    new Proxy(() => {}, {
+      get(target, name) {
+        // Keep the proxy from looking like a thenable when awaited.
+        if (typeof name !== "string" || name === "then") return undefined;
+        return createProxy([...path, name]);
+      },
+      apply(target, thisArg, args) {
+        const method = path[path.length - 1];
+        const name = path.slice(0, -1).join(".");
+
+        if (method === "subscribe") return call("subscription", name, args);
+        if (method !== "query" && method !== "mutation") {
+          throw new TypeError(`Unknown procedure type "${method}" on "${name}"`);
+        }
+        return call(method, name, args);
+      },
+    });
+
+  return createProxy([]);
+}
+
+/**
+ * Runs a call under the `signal` and `timeoutMs` of its options, handing
+ * `run` the signal to pass on. Rejects with a `FastRPCAbortError` as soon as
+ * either aborts, even if `run` ignores the signal.
+ */
+async function runWithAbort<T>(path: string, opts: CallOptions, run: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+  if (!opts.signal && opts.timeoutMs === undefined) return run();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const abort = () => controller.abort();
+  const timer =
+    opts.timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, opts.timeoutMs);
+  if (opts.signal?.aborted) abort();
+  else opts.signal?.addEventListener("abort", abort);
+
+  const aborted = new Promise<never>((resolve, reject) => {
+    const fail = () =>
+      reject(new FastRPCAbortError({ path, timedOut, cause: timedOut ? undefined : opts.signal?.reason }));
+    if (controller.signal.aborted) fail();
+    else controller.signal.addEventListener("abort", fail);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    opts.signal?.removeEventListener("abort", abort);
+  }
+}
 
 type inferProcedureInput<T> = T extends { input: infer TInput } ? TInput : never;
 type inferProcedureOutput<T> = T extends Procedure<any, infer TOutput> ? TOutput : never;
 
+// Without `.output()` the builder's TOutput is `any` and the handler decides.
+type inferBuilderOutput<TOutput, THandlerOutput> = unknown extends TOutput ? THandlerOutput : TOutput;
+
+type inferTrackedData<T> = T extends Tracked<infer TData> ? TData : T;
+
+// Inputs that accept `undefined`, e.g. `z.number().optional()`, may be left out.
+type ProcedureCall<T extends Procedure<any, any>> = [inferProcedureInput<T>] extends [void]
+  ? (input?: undefined, opts?: CallOptions) => Promise<inferProcedureOutput<T>>
+  : undefined extends inferProcedureInput<T>
+    ? (input?: inferProcedureInput<T>, opts?: CallOptions) => Promise<inferProcedureOutput<T>>
+    : (input: inferProcedureInput<T>, opts?: CallOptions) => Promise<inferProcedureOutput<T>>;
+
+type ProcedureClient<T extends Procedure<any, any>> = T["_type"] extends "query"
+  ? { query: ProcedureCall<T> }
+  : T["_type"] extends "mutation"
+    ? { mutation: ProcedureCall<T> }
+    : {
+        subscribe: (
+          input: inferProcedureInput<T>,
+          observer: SubscriptionObserver<inferProcedureOutput<T>>
+        ) => Unsubscribable;
+      };
+
+type RouterClient<T extends ProcedureRecord> = {
+  [K in keyof T]: T[K] extends AnyRouter
+    ? RouterClient<T[K]["procedures"]>
+    : T[K] extends Procedure<any, any>
+      ? ProcedureClient<T[K]>
+      : never;
+};
+
 class ProcedureBuilder<TInput = any, TOutput = any, TContext = Context> {
   private _input?: z.ZodType<TInput>;
-  private _handler?: Handler<TInput, TOutput>;
-  private _type: "query" | "mutation";
+  private _output?: z.ZodType<TOutput>;
+  private _handler?: Handler<TInput, TOutput, TContext>;
+  private _type: ProcedureType;
   private _middleware: MiddlewareFunction<any>[] = [];
+  private _meta: ProcedureMeta = {};
 
-  constructor(type: "query" | "mutation") {
+  constructor(type: ProcedureType) {
     this._type = type;
   }
 
-  input<T>(schema: z.ZodType<T>): ProcedureBuilder<T, TOutput> {
-    const builder = new ProcedureBuilder<T, TOutput>(this._type);
+  input<T>(schema: z.ZodType<T>): ProcedureBuilder<T, TOutput, TContext> {
+    const builder = new ProcedureBuilder<T, TOutput, TContext>(this._type);
     builder._input = schema;
+    builder._output = this._output;
+    builder._middleware = this._middleware;
+    builder._meta = this._meta;
+    return builder;
+  }
+
+  /**
+   * Validates the handler's return value against `schema` before it is sent,
+   * stripping unknown fields. The schema also drives the client's output type.
+   */
+  output<T>(schema: z.ZodType<T>): ProcedureBuilder<TInput, T, TContext> {
+    const builder = new ProcedureBuilder<TInput, T, TContext>(this._type);
+    builder._input = this._input;
+    builder._output = schema;
     builder._middleware = this._middleware;
+    builder._meta = this._meta;
     return builder;
   }
 
@@ -63,62 +390,188 @@ class ProcedureBuilder<TInput = any, TOutput = any, TContext = Context> {
   ): ProcedureBuilder<TInput, TOutput, TNextContext> {
     const builder = new ProcedureBuilder<TInput, TOutput, TNextContext>(this._type);
     builder._input = this._input;
+    builder._output = this._output;
     builder._middleware = [...this._middleware, fn];
+    builder._meta = this._meta;
     return builder;
   }
 
-  query<T>(handler: Handler<TInput, T>): QueryProcedure<TInput, T> {
+  /** Attaches static information to the procedure, merged over earlier `.meta()` calls. */
+  meta(meta: ProcedureMeta): ProcedureBuilder<TInput, TOutput, TContext> {
+    const builder = new ProcedureBuilder<TInput, TOutput, TContext>(this._type);
+    builder._input = this._input;
+    builder._output = this._output;
+    builder._middleware = this._middleware;
+    builder._meta = { ...this._meta, ...meta };
+    return builder;
+  }
+
+  query<T extends TOutput>(
+    handler: Handler<TInput, T, TContext>
+  ): QueryProcedure<TInput, inferBuilderOutput<TOutput, T>, TContext> {
     return {
       _type: "query",
       _handler: handler,
       _middleware: this._middleware,
+      _meta: this._meta,
       input: this._input as TInput,
+      output: this._output as inferBuilderOutput<TOutput, T>,
     };
   }
 
-  mutation<T>(handler: Handler<TInput, T>): MutationProcedure<TInput, T> {
+  mutation<T extends TOutput>(
+    handler: Handler<TInput, T, TContext>
+  ): MutationProcedure<TInput, inferBuilderOutput<TOutput, T>, TContext> {
     return {
       _type: "mutation",
       _handler: handler,
       _middleware: this._middleware,
+      _meta: this._meta,
       input: this._input as TInput,
+      output: this._output as inferBuilderOutput<TOutput, T>,
+    };
+  }
+
+  /**
+   * Defines a procedure whose handler returns an async iterable. Clients
+   * receive each value as a server-sent event; yield `tracked(id, data)` to
+   * give events ids that a reconnecting client resumes from.
+   */
+  subscription<T>(
+    handler: SubscriptionHandler<TInput, T, TContext>
+  ): SubscriptionProcedure<TInput, inferBuilderOutput<TOutput, inferTrackedData<T>>, TContext> {
+    return {
+      _type: "subscription",
+      _handler: handler,
+      _middleware: this._middleware,
+      _meta: this._meta,
+      input: this._input as TInput,
+      output: this._output as inferBuilderOutput<TOutput, inferTrackedData<T>>,
     };
   }
 }
 
-export type { QueryProcedure, MutationProcedure, Procedure, Context, MiddlewareFunction };
+export type {
+  QueryProcedure,
+  MutationProcedure,
+  SubscriptionProcedure,
+  SubscriptionHandlerOptions,
+  Procedure,
+  ProcedureRecord,
+  AnyRouter,
+  RouterClient,
+  Context,
+  RequestContext,
+  ProcedureMeta,
+  ProcedureInfo,
+  CreateContextFn,
+  FastRPCOptions,
+  MiddlewareFunction,
+  MiddlewareResult,
+};
 
-export class FastRPCBuilder {
-  private context: Context;
+export { createQueryCache } from "./cache";
+export type { CacheOptions, QueryCache, QueryCacheOptions } from "./cache";
+export type { CorsOptions } from "./cors";
+export {
+  FastRPCError,
+  FastRPCClientError,
+  FastRPCAbortError,
+  isFastRPCClientError,
+  isFastRPCAbortError,
+} from "./errors";
+export type { FastRPCErrorCode, ErrorShape, ErrorFormatter } from "./errors";
+export { zodToJsonSchema } from "./json-schema";
+export type { JSONSchema } from "./json-schema";
+export { httpLink, httpBatchLink, headersLink, retryLink, loggerLink } from "./links";
+export type {
+  CallOptions,
+  ClientEncoding,
+  ClientOptions,
+  FetchFunction,
+  LogEntry,
+  RetryLinkOptions,
+  ClientLink,
+  ClientRuntime,
+  Operation,
+  OperationLink,
+  SubscriptionObserver,
+  Unsubscribable,
+} from "./links";
+export { createNodeHandler, createNodeMiddleware } from "./node";
+export type { NodeHandler, NodeMiddleware } from "./node";
+export { generateOpenAPI } from "./openapi";
+export type { OpenAPIOptions, OpenAPIDocument } from "./openapi";
+export { rateLimit, createMemoryRateLimitStore } from "./rate-limit";
+export type { RateLimitRule, RateLimitResult, RateLimitStore, RateLimitOptions } from "./rate-limit";
+export type { CookieOptions, ResponseMeta } from "./response";
+export { tracked } from "./sse";
+export { structuredTransformer } from "./transformer";
+export type { DataTransformer } from "./transformer";
+export type { Tracked } from "./sse";
+export { createWebSocketHandler, applyWebSocketHandler, createWSClient, wsLink } from "./ws";
+export type { WSClient, WSClientMessage, WSServerMessage, ServerSocket, WebSocketLike } from "./ws";
 
-  constructor(context: Context = {}) {
+export class FastRPCBuilder<TContext extends object = Context> {
+  private context: Partial<TContext>;
+
+  constructor(context: Partial<TContext> = {}) {
     this.context = context;
   }
 
-  create() {
+  /**
+   * Creates the procedure and router helpers. When `createContext` is given,
+   * its return type becomes the `ctx` type of every handler and middleware.
+   */
+  create<TCreated extends object = TContext>(options: FastRPCOptions<TCreated> = {}) {
     const self = this;
 
     return {
       procedure: {
         input<T>(schema: z.ZodType<T>) {
-          return new ProcedureBuilder<T, any>("query").input(schema);
+          return new ProcedureBuilder<T, any, TCreated>("query").input(schema);
+        },
+        output<T>(schema: z.ZodType<T>) {
+          return new ProcedureBuilder<any, T, TCreated>("query").output(schema);
+        },
+        query<TInput = void, TOutput = void>(handler: Handler<TInput, TOutput, TCreated>) {
+          return new ProcedureBuilder<TInput, TOutput, TCreated>("query").query(handler);
+        },
+        mutation<TInput = void, TOutput = void>(handler: Handler<TInput, TOutput, TCreated>) {
+          return new ProcedureBuilder<TInput, TOutput, TCreated>("mutation").mutation(handler);
         },
-        query<TInput = void, TOutput = void>(handler: Handler<TInput, TOutput>) {
-          return new ProcedureBuilder<TInput, TOutput>("query").query(handler);
+        subscription<TInput = void, TOutput = void>(handler: SubscriptionHandler<TInput, TOutput, TCreated>) {
+          return new ProcedureBuilder<TInput, any, TCreated>("subscription").subscription(handler);
         },
-        mutation<TInput = void, TOutput = void>(handler: Handler<TInput, TOutput>) {
-          return new ProcedureBuilder<TInput, TOutput>("mutation").mutation(handler);
+        use<TNextContext = TCreated>(fn: MiddlewareFunction<TCreated, TNextContext>) {
+          return new ProcedureBuilder<any, any, TCreated>("query").use(fn);
         },
-        use<TContext = Context, TNextContext = TContext>(fn: MiddlewareFunction<TContext, TNextContext>) {
-          return new ProcedureBuilder<any, any, TContext>("query").use(fn);
+        meta(meta: ProcedureMeta) {
+          return new ProcedureBuilder<any, any, TCreated>("query").meta(meta);
         },
       },
-      router: <T extends Record<string, Procedure<any, any>>>(procedures: T): FastRPC & { procedures: T } => {
-        const rpc = new FastRPC(self.context);
-        for (const [name, procedure] of Object.entries(procedures)) {
-          rpc.procedure(name, procedure._handler, procedure._middleware || [], procedure.input as z.ZodType<any>);
+      router: <T extends ProcedureRecord>(
+        procedures: T,
+        routerOptions: FastRPCOptions<TCreated> = {}
+      ): FastRPC<TCreated> & { procedures: T } => {
+        const rpc = new FastRPC<TCreated>(self.context as unknown as Partial<TCreated>, {
+          ...options,
+          ...routerOptions,
+        });
+        for (const [path, procedure, routers] of flattenProcedures(procedures)) {
+          rpc.procedure(
+            path,
+            procedure._handler,
+            [...routers.flatMap((router) => routerMiddleware.get(router) ?? []), ...(procedure._middleware || [])],
+            procedure.input as z.ZodType<any>,
+            procedure.output as z.ZodType<any>,
+            procedure._type,
+            procedure._meta
+          );
         }
-        return Object.assign(rpc, { procedures });
+        const router = Object.assign(rpc, { procedures });
+        if (routerOptions.middleware) routerMiddleware.set(router, routerOptions.middleware);
+        return router;
       },
     };
   }
@@ -126,132 +579,576 @@ export class FastRPCBuilder {
 
 export const initFastRPC = new FastRPCBuilder();
 
-export class FastRPC {
+export class FastRPC<TContext extends object = Context> {
   private routes: Record<
     string,
-    { handler: Handler<any, any>; middleware?: MiddlewareFunction<any>[]; input?: z.ZodType<any> }
-  > = {};
-  private ctx: Context;
+    {
+      type: ProcedureType;
+      handler: (input: any, ctx: TContext & RequestContext, opts: SubscriptionHandlerOptions) => unknown;
+      middleware?: MiddlewareFunction<any>[];
+      input?: z.ZodType<any>;
+      output?: z.ZodType<any>;
+      meta?: ProcedureMeta;
+    }
+  > = Object.create(null);
+  private ctx: Partial<TContext>;
+  private options: FastRPCOptions<TContext>;
 
-  constructor(context: Context = {}) {
+  constructor(context: Partial<TContext> = {}, options: FastRPCOptions<TContext> = {}) {
     this.ctx = context;
+    this.options = options;
   }
 
   procedure<TInput, TOutput>(
     name: string,
-    handler: Handler<TInput, TOutput>,
+    handler: Handler<TInput, TOutput, TContext> | SubscriptionHandler<TInput, TOutput, TContext>,
     middleware: MiddlewareFunction<any>[] = [],
-    input?: z.ZodType<TInput>
+    input?: z.ZodType<TInput>,
+    output?: z.ZodType<TOutput>,
+    type: ProcedureType = "query",
+    meta?: ProcedureMeta
   ): void {
-    this.routes[name] = { handler, middleware, input };
+    this.routes[name] = { type, handler, middleware, input, output, meta };
+  }
+
+  /**
+   * Describes every procedure of the router, including nested ones: its
+   * path, type, the JSON Schemas of its input and output, and its meta.
+   */
+  listProcedures(): ProcedureInfo[] {
+    return Object.entries(this.routes).map(([path, route]) => {
+      const info: ProcedureInfo = { path, type: route.type, meta: route.meta ?? {} };
+      if (route.input) info.input = zodToJsonSchema(route.input, "input");
+      if (route.output) info.output = zodToJsonSchema(route.output, "output");
+      return info;
+    });
+  }
+
+  /** The normalized `basePath` of the router, e.g. `/api/rpc`. */
+  get basePath(): string | undefined {
+    return normalizeBasePath(this.options.basePath);
+  }
+
+  /**
+   * Resolves a pathname to a registered procedure. Both the dotted form
+   * (`/users.get`) and the slash form (`/users/get`) are accepted. Below a
+   * base path the rest of the pathname must match exactly; otherwise the
+   * longest trailing match wins.
+   */
+  private resolve(pathname: string, basePath?: string): string | undefined {
+    if (basePath !== undefined) {
+      if (!pathname.startsWith(`${basePath}/`)) return undefined;
+      const path = pathname.slice(basePath.length).split("/").filter(Boolean).join(".");
+      return this.routes[path] ? path : undefined;
+    }
+
+    const segments = pathname.split("/").filter(Boolean);
+    for (let i = 0; i < segments.length; i++) {
+      const path = segments.slice(i).join(".");
+      if (this.routes[path]) return path;
+    }
+    return undefined;
+  }
+
+  private async readInput(req: Request, searchParams: URLSearchParams): Promise<unknown> {
+    if (req.method === "GET" || req.method === "HEAD") {
+      const raw = searchParams.get("input");
+      if (raw === null) return undefined;
+      if (raw.length > maxQueryInputLength) {
+        throw new FastRPCError({
+          code: "BAD_REQUEST",
+          message: `Query input exceeds ${maxQueryInputLength} characters`,
+        });
+      }
+      try {
+        return JSON.parse(raw);
+      } catch (cause) {
+        throw new FastRPCError({ code: "PARSE_ERROR", message: "Invalid query input", cause });
+      }
+    }
+    if (req.method === "POST" && isMsgpack(req.headers.get("Content-Type"))) {
+      try {
+        const bytes = new Uint8Array(await req.arrayBuffer());
+        return bytes.length ? decodeMsgpack(bytes) : undefined;
+      } catch (cause) {
+        throw new FastRPCError({ code: "PARSE_ERROR", message: "Invalid MessagePack", cause });
+      }
+    }
+    if (req.method === "POST") {
+      try {
+        const text = await req.text();
+        return text ? JSON.parse(text) : undefined;
+      } catch (cause) {
+        throw new FastRPCError({ code: "PARSE_ERROR", message: "Invalid JSON", cause });
+      }
+    }
+    return undefined;
+  }
+
+  private async createContext(req: Request, options: FastRPCOptions<TContext>): Promise<TContext> {
+    return options.createContext ? await options.createContext(req) : ({ ...this.ctx } as TContext);
   }
 
-  async handle(req: Request): Promise<Response> {
+  /**
+   * Runs a single procedure: input validation, middleware, handler and output
+   * validation. Resolves to the result, or to the `Response` a middleware
+   * short-circuited with. Subscriptions resolve to their unvalidated iterable.
+   * `res` and `opts.signal` become `ctx.res` and `ctx.signal`, also on
+   * contexts middleware hands to `next`.
+   * Results of public queries with `cache` meta are kept in `options.cache`.
+   */
+  private async call(
+    path: string,
+    input: unknown,
+    ctx: TContext,
+    opts: SubscriptionHandlerOptions,
+    res: ResponseMeta,
+    options: FastRPCOptions<TContext>
+  ): Promise<unknown> {
+    const route = this.routes[path];
+    const cacheOptions = route.meta?.cache;
+    const serverCache = route.type === "query" && cacheOptions && !cacheOptions.private ? options.cache : undefined;
+
+    if (route.input) {
+      const result = route.input.safeParse(input);
+      if (!result.success) {
+        throw new FastRPCError({ code: "BAD_REQUEST", message: "Input validation failed", cause: result.error });
+      }
+      input = result.data;
+    }
+
+    const middleware = [...(options.middleware ?? []), ...(route.middleware ?? [])];
+
+    // Each middleware's `next` runs the rest of the chain and resolves to its
+    // result, so middleware can wrap the handler, post-process its result or
+    // catch its errors. The innermost step is the handler plus output validation.
+    // Middleware may hand a context of any shape to `next`.
+    const withRequest = (ctx: any) =>
+      ctx.res === res && ctx.signal === opts.signal ? ctx : { ...ctx, res, signal: opts.signal };
+    const run = async (index: number, ctx: any): Promise<any> => {
+      if (index < middleware.length) {
+        return middleware[index]({
+          ctx,
+          path,
+          type: route.type,
+          meta: route.meta ?? {},
+          next: (nextOpts) => run(index + 1, nextOpts?.ctx ? withRequest(nextOpts.ctx) : ctx),
+        });
+      }
+
+      const cached = serverCache?.get(path, input);
+      if (cached) return cached.value;
+
+      let result = await route.handler(input, ctx, opts);
+      if (route.output && route.type !== "subscription") result = parseOutput(route.output, result);
+
+      serverCache?.set(path, input, result, cacheOptions!.maxAge * 1000);
+      return result;
+    };
+
+    return run(0, withRequest(ctx));
+  }
+
+  private normalizeError(cause: unknown): FastRPCError {
+    const error = toFastRPCError(cause);
+    // Unexpected errors and output mismatches are server bugs worth logging.
+    if (error.code === "OUTPUT_VALIDATION_ERROR" || (error.code === "INTERNAL_SERVER_ERROR" && error.cause === cause)) {
+      console.error(error.cause);
+    }
+    return error;
+  }
+
+  private formatError(
+    error: FastRPCError,
+    opts: { path?: string; input?: unknown; ctx?: unknown },
+    options: FastRPCOptions<TContext>
+  ): { error: unknown } {
+    const shape = getErrorShape(error);
+    if (!options.errorFormatter) return { error: shape };
+    try {
+      return { error: options.errorFormatter({ error, shape, ...opts }) };
+    } catch (cause) {
+      // A failing formatter must not turn an error response into a rejection.
+      console.error(cause);
+      return { error: shape };
+    }
+  }
+
+  /**
+   * Handles a Fetch `Request`. Options given here override the ones configured
+   * on the router for this call only.
+   */
+  async handle(req: Request, options: FastRPCOptions<TContext> = {}): Promise<Response> {
+    options = { ...this.options, ...options };
+    let response = await this.handleRequest(req, options);
+
+    // HEAD is answered like GET, without the body.
+    if (req.method === "HEAD") {
+      await response.body?.cancel();
+      response = new Response(null, response);
+    }
+    if (!options.cors) return response;
+
+    try {
+      return await applyCors(req, response, options.cors);
+    } catch (cause) {
+      // An `origin` function that throws fails the request, without CORS headers.
+      await response.body?.cancel();
+      const error = this.normalizeError(cause);
+      return this.respond(req, this.formatError(error, {}, options), { status: error.status });
+    }
+  }
+
+  private async handleRequest(req: Request, options: FastRPCOptions<TContext>): Promise<Response> {
+    let path: string | undefined;
+    let input: unknown;
+    let ctx: TContext | undefined;
+    const responseMeta = createResponseMeta();
+
     try {
       const url = new URL(req.url);
-      const name = url.pathname.split("/").pop() || "";
+      const match = this.match(req, url.pathname, url.searchParams, options);
+      if (!match) {
+        throw new FastRPCError({ code: "NOT_FOUND", message: `No procedure found at "${url.pathname}"` });
+      }
+      if (match.type === "batch") {
+        if (req.method === "OPTIONS") return this.optionsResponse(["GET", "HEAD", "POST"]);
+        return await this.handleBatch(req, url.pathname, url.searchParams, options);
+      }
+      if (match.type === "openapi") {
+        return Response.json(createOpenAPIDocument(Object.entries(this.routes), options.openapi!));
+      }
+      path = match.path;
 
-      const route = this.routes[name];
-      if (!route) return notFoundResponse;
+      const allowed = allowedMethods(this.routes[path].type, options);
+      if (req.method === "OPTIONS") return this.optionsResponse(allowed);
+      if (!allowed.includes(req.method)) {
+        const error = new FastRPCError({
+          code: "METHOD_NOT_SUPPORTED",
+          message: `${req.method} is not supported by ${this.routes[path].type} "${path}"`,
+        });
+        return this.respond(req, this.formatError(error, { path }, options), {
+          status: error.status,
+          headers: { Allow: allowHeader(allowed) },
+        });
+      }
 
-      let input = emptyObject;
-      if (req.method === "POST") {
-        try {
-          input = (await req.json()) as any;
-        } catch {
-          return Response.json({ error: "Invalid JSON" }, { status: 400 });
-        }
+      const transformer = options.transformer ?? defaultTransformer;
+      input = deserializeInput(transformer, await this.readInput(req, url.searchParams));
+      ctx = await this.createContext(req, options);
+
+      const lastEventId = req.headers.get("Last-Event-ID") ?? undefined;
+      const route = this.routes[path];
+      const result = await this.call(path, input, ctx, { signal: req.signal, lastEventId }, responseMeta.res, options);
+      if (result instanceof Response) return responseMeta.apply(result, { keepStatus: true });
+
+      if (route.type === "subscription") {
+        return responseMeta.apply(
+          this.eventStreamResponse(result as AsyncIterable<unknown>, { req, path, input, ctx }, options)
+        );
       }
+      if (route.type === "query" && (req.method === "GET" || req.method === "HEAD")) {
+        const headers = route.meta?.cache ? { "Cache-Control": cacheControl(route.meta.cache) } : undefined;
+        return await this.conditionalResponse(
+          req,
+          responseMeta.apply(this.respond(req, transformer.serialize(result), { headers }))
+        );
+      }
+      return responseMeta.apply(this.respond(req, transformer.serialize(result)));
+    } catch (cause) {
+      const error = this.normalizeError(cause);
+      const response = this.respond(req, this.formatError(error, { path, input, ctx }, options), {
+        status: error.status,
+      });
+      return responseMeta.apply(response, { keepStatus: true });
+    }
+  }
+
+  /**
+   * Adds an ETag computed from the encoded body of a successful query
+   * response, and answers `304 Not Modified` when `If-None-Match` matches it.
+   */
+  private async conditionalResponse(req: Request, response: Response): Promise<Response> {
+    if (response.status !== 200) return response;
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    const headers = new Headers(response.headers);
+    if (!headers.has("ETag")) headers.set("ETag", await computeETag(body));
+    // JSON and MessagePack bodies of the same result differ.
+    headers.append("Vary", "Accept");
+
+    if (matchesETag(req.headers.get("If-None-Match"), headers.get("ETag")!)) {
+      headers.delete("Content-Type");
+      headers.delete("Content-Length");
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(body, { status: response.status, statusText: response.statusText, headers });
+  }
+
+  private optionsResponse(methods: string[]): Response {
+    return new Response(null, { status: 204, headers: { Allow: allowHeader(methods) } });
+  }
+
+  /**
+   * Like `handle`, but resolves to `undefined` instead of a 404 response when
+   * the request is outside `basePath` or matches no procedure, so the router
+   * can sit in front of another one: `(await api.tryHandle(req)) ?? app.fetch(req)`.
+   */
+  async tryHandle(req: Request, options: FastRPCOptions<TContext> = {}): Promise<Response | undefined> {
+    const url = new URL(req.url);
+    if (!this.match(req, url.pathname, url.searchParams, { ...this.options, ...options })) return undefined;
+    return this.handle(req, options);
+  }
+
+  /**
+   * Returns a client that calls procedures in-process, for background jobs and
+   * tests: `await api.createCaller(ctx).users.get.query({ id })`. Input
+   * validation and middleware run as over HTTP, and failures reject with the
+   * `FastRPCError` the response would have carried. Nothing is serialized.
+   */
+  createCaller<TRouter extends AnyRouter>(this: TRouter, ctx: TContext): RouterClient<TRouter["procedures"]> {
+    const invoke = async (path: string, input: unknown, signal: AbortSignal) => {
+      const route = this.routes[path];
+      if (!route) throw new FastRPCError({ code: "NOT_FOUND", message: `No procedure found at "${path}"` });
+
+      const result = await this.call(path, input, { ...ctx }, { signal }, createResponseMeta().res, this.options);
+      return result instanceof Response ? this.readShortCircuit(result) : result;
+    };
+
+    const subscribe = (path: string, input: unknown, observer: SubscriptionObserver<unknown>): Unsubscribable => {
+      const controller = new AbortController();
 
-      if (route.input) {
-        const result = route.input.safeParse(input);
-        if (!result.success) {
-          return Response.json({ error: result.error.errors }, { status: 400 });
+      const run = async () => {
+        const iterable = (await invoke(path, input, controller.signal)) as AsyncIterable<unknown>;
+        const { output } = this.routes[path];
+        observer.onStarted?.();
+        for await (const value of iterable) {
+          if (controller.signal.aborted) break;
+          const data = value instanceof Tracked ? value.data : value;
+          observer.onData?.(output ? parseOutput(output, data) : data);
         }
-        input = result.data;
+      };
+
+      run().then(
+        () => {
+          if (!controller.signal.aborted) observer.onComplete?.();
+        },
+        (cause) => {
+          if (!controller.signal.aborted) observer.onError?.(this.normalizeError(cause));
+        }
+      );
+
+      return { unsubscribe: () => controller.abort() };
+    };
+
+    return createProcedureProxy((type, path, args) => {
+      if (this.routes[path] && this.routes[path].type !== type) {
+        throw new TypeError(`"${path}" is a ${this.routes[path].type}, not a ${type}`);
       }
+      if (type === "subscription") return subscribe(path, args[0], (args[1] as SubscriptionObserver<unknown>) ?? {});
+      return runWithAbort(path, (args[1] as CallOptions) ?? {}, (signal) =>
+        invoke(path, args[0], signal ?? new AbortController().signal).catch((cause) => {
+          throw this.normalizeError(cause);
+        })
+      );
+    });
+  }
+
+  /**
+   * Reads a `Response` a middleware short-circuited a caller's call with: its
+   * body on success, a `FastRPCError` matching its status otherwise.
+   */
+  private async readShortCircuit(response: Response): Promise<unknown> {
+    const body = await readResponseBody(response);
+    if (response.ok) return body;
+
+    const error = (body as { error?: { code?: unknown; message?: unknown; data?: unknown } } | undefined)?.error;
+    const codes = Object.keys(errorCodeToHttpStatus) as FastRPCErrorCode[];
+    const code =
+      codes.find((code) => code === error?.code) ??
+      codes.find((code) => errorCodeToHttpStatus[code] === response.status) ??
+      "INTERNAL_SERVER_ERROR";
+    const message = typeof error?.message === "string" ? error.message : typeof body === "string" ? body : undefined;
+    throw new FastRPCError({ code, message, data: error?.data });
+  }
+
+  /** Finds what a request points at; `undefined` when the router serves nothing there. */
+  private match(
+    req: Request,
+    pathname: string,
+    searchParams: URLSearchParams,
+    options: FastRPCOptions<TContext>
+  ): RouteMatch | undefined {
+    const basePath = normalizeBasePath(options.basePath);
+    if (basePath !== undefined && !pathname.startsWith(`${basePath}/`)) return undefined;
+    if (searchParams.get("batch") === "1") {
+      // Only claim batches of this router's procedures; a stale name among them still gets its own 404 entry.
+      const { prefix, names } = splitBatchPath(pathname);
+      if (names.some((name) => this.resolve(prefix + name, basePath) !== undefined)) return { type: "batch" };
+    }
+
+    const path = this.resolve(pathname, basePath);
+    if (path !== undefined) return { type: "procedure", path };
+
+    const isOpenAPIPath =
+      basePath === undefined ? pathname.endsWith("/openapi.json") : pathname === `${basePath}/openapi.json`;
+    if (options.openapi && (req.method === "GET" || req.method === "HEAD") && isOpenAPIPath) {
+      return { type: "openapi" };
+    }
+    return undefined;
+  }
+
+  /**
+   * Encodes a response body as MessagePack when the request's `Accept` header
+   * asks for it, as JSON otherwise.
+   */
+  private respond(req: Request, body: unknown, init: ResponseInit = {}): Response {
+    // A handler returning nothing has no JSON form; send `null` instead.
+    if (!acceptsMsgpack(req.headers.get("Accept"))) return Response.json(body === undefined ? null : body, init);
+    return new Response(encodeMsgpack(body), {
+      ...init,
+      headers: { ...init.headers, "Content-Type": msgpackContentType },
+    });
+  }
+
+  private eventStreamResponse(
+    iterable: AsyncIterable<unknown>,
+    opts: { req: Request; path: string; input: unknown; ctx: TContext },
+    options: FastRPCOptions<TContext>
+  ): Response {
+    const { output } = this.routes[opts.path];
+    const transformer = options.transformer ?? defaultTransformer;
+
+    const stream = createEventStream(iterable, {
+      signal: opts.req.signal,
+      pingIntervalMs: options.ssePingIntervalMs ?? defaultSsePingIntervalMs,
+      mapData: (data) => transformer.serialize(output ? parseOutput(output, data) : data),
+      mapError: (cause) => {
+        const error = this.normalizeError(cause);
+        return { status: error.status, body: this.formatError(error, opts, options) };
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  /**
+   * Handles `/a,b.c?batch=1`. Inputs are sent as one object keyed by call
+   * index; the response is an array of `{ status, body }` entries, each
+   * holding what the call would have answered on its own.
+   */
+  private async handleBatch(
+    req: Request,
+    pathname: string,
+    searchParams: URLSearchParams,
+    options: FastRPCOptions<TContext>
+  ): Promise<Response> {
+    const { prefix, names } = splitBatchPath(pathname);
+    const basePath = normalizeBasePath(options.basePath);
 
-      let ctx = { ...this.ctx };
-      let nextCalled = false;
-
-      if (route.middleware?.length) {
-        for (const middleware of route.middleware) {
-          const result = await middleware({
-            ctx,
-            next: async (opts) => {
-              ctx = opts.ctx;
-              nextCalled = true;
-            },
-          });
-
-          if (result !== undefined && result instanceof Response) {
-            return result;
+    const maxBatchSize = options.maxBatchSize ?? defaultMaxBatchSize;
+    if (names.length > maxBatchSize) {
+      throw new FastRPCError({ code: "BAD_REQUEST", message: `Batch exceeds ${maxBatchSize} calls` });
+    }
+
+    const inputs = (await this.readInput(req, searchParams)) ?? emptyObject;
+    if (typeof inputs !== "object" || inputs === null) {
+      throw new FastRPCError({ code: "BAD_REQUEST", message: "Batch input must be an object keyed by call index" });
+    }
+
+    const ctx = await this.createContext(req, options);
+    const transformer = options.transformer ?? defaultTransformer;
+    const responseMetas = names.map(() => createResponseMeta());
+
+    const entries = await Promise.all(
+      names.map(async (name, index) => {
+        const path = this.resolve(prefix + name, basePath);
+        const rawInput = (inputs as Record<number, unknown>)[index];
+        let input: unknown;
+
+        try {
+          input = deserializeInput(transformer, rawInput);
+          if (path === undefined) {
+            throw new FastRPCError({ code: "NOT_FOUND", message: `No procedure found at "${prefix + name}"` });
+          }
+          if (this.routes[path].type === "subscription") {
+            throw new FastRPCError({ code: "BAD_REQUEST", message: "Subscriptions cannot be batched" });
+          }
+          if (!allowedMethods(this.routes[path].type, options).includes(req.method)) {
+            throw new FastRPCError({
+              code: "METHOD_NOT_SUPPORTED",
+              message: `${req.method} is not supported by ${this.routes[path].type} "${path}"`,
+            });
           }
 
-          if (!nextCalled) {
-            break;
+          const result = await this.call(
+            path,
+            input,
+            { ...ctx },
+            { signal: req.signal },
+            responseMetas[index].res,
+            options
+          );
+          if (result instanceof Response) {
+            return { status: result.status, body: await readResponseBody(result) };
           }
-          nextCalled = false;
+          return { status: responseMetas[index].status ?? 200, body: transformer.serialize(result) };
+        } catch (cause) {
+          const error = this.normalizeError(cause);
+          return { status: error.status, body: this.formatError(error, { path, input, ctx }, options) };
         }
-      }
+      })
+    );
 
-      const result = await route.handler(input, ctx);
-      return Response.json(result);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return Response.json({ error: error.errors }, { status: 400 });
-      }
-      console.error(error);
-      return errorResponse;
-    }
+    // Headers and cookies of all calls go on the batch response; statuses stay per entry.
+    return responseMetas.reduce(
+      (response, responseMeta) => responseMeta.apply(response, { keepStatus: true }),
+      this.respond(req, entries)
+    );
   }
 }
 
-export function createClient<T extends FastRPC & { procedures: Record<string, Procedure<any, any>> }>(
-  baseUrl: string
-): {
-  [K in keyof T["procedures"]]: T["procedures"][K]["_type"] extends "query"
-    ? {
-        query: [inferProcedureInput<T["procedures"][K]>] extends [void]
-          ? () => Promise<inferProcedureOutput<T["procedures"][K]>>
-          : (input: inferProcedureInput<T["procedures"][K]>) => Promise<inferProcedureOutput<T["procedures"][K]>>;
+/**
+ * Creates a typed client. Calls go through `options.links`, which default to a
+ * single `httpLink()`; use `httpBatchLink()` to coalesce calls.
+ */
+export function createClient<T extends AnyRouter>(
+  baseUrl: string,
+  options: ClientOptions = {}
+): RouterClient<T["procedures"]> {
+  const execute = composeLinks(options.links ?? [httpLink()], {
+    baseUrl,
+    // Looked up per call, so replacing the global `fetch` later still takes effect.
+    fetch: options.fetch ?? ((url, init) => fetch(url, init)),
+    transformer: options.transformer ?? defaultTransformer,
+    encoding: options.encoding ?? "json",
+  });
+
+  const subscribe = (path: string, input: unknown, observer: SubscriptionObserver<unknown>): Unsubscribable => {
+    const controller = new AbortController();
+
+    execute({ type: "subscription", path, input, signal: controller.signal, headers: options.headers, observer }).then(
+      () => {
+        if (!controller.signal.aborted) observer.onComplete?.();
+      },
+      (error) => {
+        if (!controller.signal.aborted) observer.onError?.(error);
       }
-    : {
-        mutation: [inferProcedureInput<T["procedures"][K]>] extends [void]
-          ? () => Promise<inferProcedureOutput<T["procedures"][K]>>
-          : (input: inferProcedureInput<T["procedures"][K]>) => Promise<inferProcedureOutput<T["procedures"][K]>>;
-      };
-} {
-  return new Proxy({} as any, {
-    get(target, name) {
-      if (typeof name !== "string") return undefined;
-
-      return {
-        query: async (input?: any) => {
-          const response = await fetch(`${baseUrl}/${name}`, {
-            method: "GET",
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
+    );
 
-          return response.json();
-        },
-        mutation: async (input?: any) => {
-          const response = await fetch(`${baseUrl}/${name}`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(input ?? {}),
-          });
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-          return response.json();
-        },
-      };
-    },
+    return { unsubscribe: () => controller.abort() };
+  };
+
+  return createProcedureProxy((type, path, args) => {
+    if (type === "subscription") return subscribe(path, args[0], (args[1] as SubscriptionObserver<unknown>) ?? {});
+    const callOptions: CallOptions = { timeoutMs: options.timeoutMs, ...(args[1] as CallOptions) };
+    const headers = options.headers || callOptions.headers ? { ...options.headers, ...callOptions.headers } : undefined;
+    return runWithAbort(path, callOptions, (signal) => execute({ type, path, input: args[0], signal, headers }));
   });
 }
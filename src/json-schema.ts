@@ -0,0 +1,207 @@
+import { z } from "zod";
+
+/** A JSON Schema (draft 2020-12, as used by OpenAPI 3.1). */
+type JSONSchema = {
+  [keyword: string]: unknown;
+};
+
+export type { JSONSchema };
+
+/**
+ * Which side of a transforming schema to describe: what the procedure accepts
+ * (`input`) or what it sends back (`output`). They differ for defaults,
+ * pipelines and coercions.
+ */
+type SchemaDirection = "input" | "output";
+
+function withDescription(schema: z.ZodTypeAny, jsonSchema: JSONSchema): JSONSchema {
+  return schema.description === undefined ? jsonSchema : { ...jsonSchema, description: schema.description };
+}
+
+function isOptional(schema: z.ZodTypeAny, direction: SchemaDirection): boolean {
+  if (schema instanceof z.ZodDefault) return direction === "input";
+  return schema.isOptional();
+}
+
+function convertString(schema: z.ZodString): JSONSchema {
+  const jsonSchema: JSONSchema = { type: "string" };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        jsonSchema.minLength = check.value;
+        break;
+      case "max":
+        jsonSchema.maxLength = check.value;
+        break;
+      case "length":
+        jsonSchema.minLength = check.value;
+        jsonSchema.maxLength = check.value;
+        break;
+      case "email":
+      case "uuid":
+      case "date":
+      case "time":
+        jsonSchema.format = check.kind;
+        break;
+      case "ip":
+        if (check.version) jsonSchema.format = check.version === "v4" ? "ipv4" : "ipv6";
+        break;
+      case "url":
+        jsonSchema.format = "uri";
+        break;
+      case "datetime":
+        jsonSchema.format = "date-time";
+        break;
+      case "regex":
+        jsonSchema.pattern = check.regex.source;
+        break;
+    }
+  }
+  return jsonSchema;
+}
+
+function convertNumber(schema: z.ZodNumber): JSONSchema {
+  const jsonSchema: JSONSchema = { type: "number" };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int":
+        jsonSchema.type = "integer";
+        break;
+      case "min":
+        jsonSchema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        break;
+      case "max":
+        jsonSchema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        break;
+      case "multipleOf":
+        jsonSchema.multipleOf = check.value;
+        break;
+    }
+  }
+  return jsonSchema;
+}
+
+function convertObject(
+  schema: z.ZodObject<z.ZodRawShape>,
+  direction: SchemaDirection,
+  seen: Set<z.ZodTypeAny>
+): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+  for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = convert(value, direction, seen);
+    if (!isOptional(value, direction)) required.push(key);
+  }
+
+  const jsonSchema: JSONSchema = { type: "object", properties };
+  if (required.length) jsonSchema.required = required;
+
+  const { catchall, unknownKeys } = schema._def;
+  if (!(catchall instanceof z.ZodNever)) {
+    jsonSchema.additionalProperties = convert(catchall, direction, seen);
+  } else if (unknownKeys === "strict") {
+    jsonSchema.additionalProperties = false;
+  }
+  return jsonSchema;
+}
+
+function convert(schema: z.ZodTypeAny, direction: SchemaDirection, seen: Set<z.ZodTypeAny>): JSONSchema {
+  // Recursive schemas (via z.lazy) are described once; deeper levels accept anything.
+  if (seen.has(schema)) return {};
+
+  if (schema instanceof z.ZodLazy) {
+    seen.add(schema);
+    const jsonSchema = convert(schema.schema, direction, seen);
+    seen.delete(schema);
+    return withDescription(schema, jsonSchema);
+  }
+
+  return withDescription(schema, convertType(schema, direction, seen));
+}
+
+function convertType(schema: z.ZodTypeAny, direction: SchemaDirection, seen: Set<z.ZodTypeAny>): JSONSchema {
+  if (schema instanceof z.ZodString) return convertString(schema);
+  if (schema instanceof z.ZodNumber) return convertNumber(schema);
+  if (schema instanceof z.ZodBigInt) return { type: "integer", format: "int64" };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodDate) return { type: "string", format: "date-time" };
+  if (schema instanceof z.ZodNull) return { type: "null" };
+  if (schema instanceof z.ZodNever) return { not: {} };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: schema.options };
+  if (schema instanceof z.ZodNativeEnum) {
+    // Numeric TypeScript enums map their values back to their names; skip those.
+    const values = Object.entries(schema.enum as Record<string, string | number>)
+      .filter(([key]) => typeof schema.enum[schema.enum[key]] !== "number")
+      .map(([, value]) => value);
+    return { enum: values };
+  }
+  if (schema instanceof z.ZodObject) return convertObject(schema, direction, seen);
+
+  if (schema instanceof z.ZodArray) {
+    const jsonSchema: JSONSchema = { type: "array", items: convert(schema.element, direction, seen) };
+    if (schema._def.minLength) jsonSchema.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) jsonSchema.maxItems = schema._def.maxLength.value;
+    if (schema._def.exactLength) {
+      jsonSchema.minItems = schema._def.exactLength.value;
+      jsonSchema.maxItems = schema._def.exactLength.value;
+    }
+    return jsonSchema;
+  }
+  if (schema instanceof z.ZodSet) {
+    return { type: "array", uniqueItems: true, items: convert(schema._def.valueType, direction, seen) };
+  }
+  if (schema instanceof z.ZodTuple) {
+    const prefixItems = schema.items.map((item: z.ZodTypeAny) => convert(item, direction, seen));
+    const rest = schema._def.rest as z.ZodTypeAny | null;
+    return {
+      type: "array",
+      prefixItems,
+      minItems: prefixItems.length,
+      items: rest ? convert(rest, direction, seen) : false,
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: convert(schema.valueSchema, direction, seen) };
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options: z.ZodTypeAny[] = [...schema.options];
+    return { anyOf: options.map((option) => convert(option, direction, seen)) };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [convert(schema._def.left, direction, seen), convert(schema._def.right, direction, seen)] };
+  }
+
+  if (schema instanceof z.ZodOptional) return convert(schema.unwrap(), direction, seen);
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [convert(schema.unwrap(), direction, seen), { type: "null" }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema.removeDefault(), direction, seen), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodCatch) return convert(schema.removeCatch(), direction, seen);
+  if (schema instanceof z.ZodBranded) return convert(schema.unwrap(), direction, seen);
+  if (schema instanceof z.ZodReadonly) return { ...convert(schema._def.innerType, direction, seen), readOnly: true };
+  if (schema instanceof z.ZodPromise) return convert(schema.unwrap(), direction, seen);
+  if (schema instanceof z.ZodPipeline) {
+    return convert(direction === "input" ? schema._def.in : schema._def.out, direction, seen);
+  }
+  // Refinements keep the inner shape; a transform's output is not known statically.
+  if (schema instanceof z.ZodEffects) {
+    if (direction === "output" && schema._def.effect.type === "transform") return {};
+    return convert(schema.innerType(), direction, seen);
+  }
+
+  // z.any(), z.unknown() and types without a JSON representation accept anything.
+  return {};
+}
+
+/**
+ * Converts a zod schema to JSON Schema. Constraints without a JSON Schema
+ * equivalent, such as refinements, are left out, so the result may accept
+ * more than the zod schema does.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, direction: SchemaDirection = "input"): JSONSchema {
+  return convert(schema, direction, new Set());
+}
@@ -0,0 +1,516 @@
+import { FastRPCClientError } from "./errors";
+import { decodeMsgpack, encodeMsgpack, isMsgpack, msgpackContentType } from "./msgpack";
+import { readEventStream } from "./sse";
+import type { DataTransformer } from "./transformer";
+
+type ProcedureType = "query" | "mutation" | "subscription";
+
+/** How request bodies are encoded and which response encoding is asked for. */
+type ClientEncoding = "json" | "msgpack";
+
+type SubscriptionObserver<TData> = {
+  /** Called each time the event stream is (re)opened. */
+  onStarted?: () => void;
+  onData?: (data: TData) => void;
+  onError?: (error: unknown) => void;
+  onComplete?: () => void;
+};
+
+type Unsubscribable = {
+  unsubscribe: () => void;
+};
+
+type Operation = {
+  type: ProcedureType;
+  /** Dotted procedure path, e.g. `users.get`. */
+  path: string;
+  input: unknown;
+  /** Aborts the operation; for subscriptions this is how they are stopped. */
+  signal?: AbortSignal;
+  /** Extra request headers: the client's `headers` merged with the call's. */
+  headers?: Record<string, string>;
+  /** Receives subscription events. The operation resolves when the subscription completes. */
+  observer?: SubscriptionObserver<unknown>;
+};
+
+/** A `fetch` replacement, e.g. one that adds credentials or a mock in tests. */
+type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+type ClientRuntime = {
+  baseUrl: string;
+  /** Sends the requests of `httpLink` and `httpBatchLink`. */
+  fetch: FetchFunction;
+  /** Links that send operations serialize inputs and deserialize results with it. */
+  transformer: DataTransformer;
+  encoding: ClientEncoding;
+};
+
+/**
+ * Handles one operation, either by forwarding it (possibly modified) to `next`
+ * or, for the last link in the chain, by sending it and resolving to the result.
+ */
+type OperationLink = (op: Operation, next: (op: Operation) => Promise<unknown>) => Promise<unknown>;
+
+type ClientLink = (runtime: ClientRuntime) => OperationLink;
+
+/** The optional last argument of `query()` and `mutation()`. */
+type CallOptions = {
+  /** Aborts the call, which then rejects with a `FastRPCAbortError`. */
+  signal?: AbortSignal;
+  /** Aborts the call after this many milliseconds. Overrides the client's `timeoutMs`. */
+  timeoutMs?: number;
+  /** Sent with the call, over the client's `headers`. */
+  headers?: Record<string, string>;
+};
+
+type ClientOptions = {
+  /** Defaults to `[httpLink()]`. */
+  links?: ClientLink[];
+  /** Must match the server's `transformer`. Defaults to plain JSON. */
+  transformer?: DataTransformer;
+  /**
+   * `msgpack` sends mutation bodies as `application/msgpack` and asks for
+   * MessagePack responses. Subscriptions always use JSON. Defaults to `json`.
+   */
+  encoding?: ClientEncoding;
+  /** Sends the requests of `httpLink` and `httpBatchLink`. Defaults to the global `fetch`. */
+  fetch?: FetchFunction;
+  /** Default `timeoutMs` of every query and mutation. */
+  timeoutMs?: number;
+  /** Sent with every call, subscriptions included. */
+  headers?: Record<string, string>;
+};
+
+export type {
+  ProcedureType,
+  ClientEncoding,
+  FetchFunction,
+  SubscriptionObserver,
+  Unsubscribable,
+  Operation,
+  ClientRuntime,
+  OperationLink,
+  ClientLink,
+  CallOptions,
+  ClientOptions,
+};
+
+type BatchEntry = {
+  status: number;
+  body: unknown;
+};
+
+type PendingOperation = {
+  op: Operation;
+  /** The input as serialized by the transformer. */
+  input: unknown;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+};
+
+const defaultMaxBatchSize = 10;
+
+// The longest query input, in characters of JSON, the server accepts in a URL.
+const maxQueryInputLength = 8192;
+
+const initialReconnectDelayMs = 1000;
+const maxReconnectDelayMs = 30_000;
+
+export function composeLinks(links: ClientLink[], runtime: ClientRuntime): (op: Operation) => Promise<unknown> {
+  const operationLinks = links.map((link) => link(runtime));
+
+  const dispatch = async (index: number, op: Operation): Promise<unknown> => {
+    const link = operationLinks[index];
+    if (!link) {
+      throw new Error("No link sent the operation; end the chain with httpLink() or httpBatchLink()");
+    }
+    return link(op, (nextOp) => dispatch(index + 1, nextOp));
+  };
+
+  return (op) => dispatch(0, op);
+}
+
+async function readBody(response: Response, encoding: ClientEncoding): Promise<unknown> {
+  // E.g. after `ctx.res.status(204)`, or from middleware answering `new Response(null)`.
+  if (response.status === 204 || response.status === 205 || response.body === null) return undefined;
+  // The server may still answer with JSON, e.g. from middleware.
+  if (encoding === "msgpack" && isMsgpack(response.headers.get("Content-Type"))) {
+    return decodeMsgpack(new Uint8Array(await response.arrayBuffer()));
+  }
+  return response.json();
+}
+
+async function parseResponse(path: string, response: Response, encoding: ClientEncoding = "json"): Promise<unknown> {
+  if (!response.ok) {
+    const body = await readBody(response, encoding).catch(() => undefined);
+    throw FastRPCClientError.fromResponseBody(body, { status: response.status, path });
+  }
+  return readBody(response, encoding);
+}
+
+// An absent input stays absent, so the server applies its default.
+function serializeInput(transformer: DataTransformer, input: unknown): unknown {
+  return input === undefined ? undefined : transformer.serialize(input);
+}
+
+// Batch inputs are sent as one object keyed by call index; absent ones are left out.
+function batchInputs(batch: PendingOperation[]): Record<number, unknown> {
+  const inputs: Record<number, unknown> = {};
+  batch.forEach(({ input }, index) => {
+    if (input !== undefined) inputs[index] = input;
+  });
+  return inputs;
+}
+
+type SendOptions = {
+  fetch: FetchFunction;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  encoding?: ClientEncoding;
+};
+
+function send(url: string, type: ProcedureType, input: unknown, opts: SendOptions): Promise<Response> {
+  const { fetch, encoding = "json", ...init } = opts;
+  const useMsgpack = encoding === "msgpack";
+  const headers = useMsgpack ? { Accept: msgpackContentType, ...init.headers } : init.headers;
+
+  if (type !== "mutation") {
+    const separator = url.includes("?") ? "&" : "?";
+    const search = input === undefined ? "" : `${separator}input=${encodeURIComponent(JSON.stringify(input))}`;
+    return fetch(`${url}${search}`, {
+      ...init,
+      headers,
+      method: "GET",
+    });
+  }
+
+  if (input === undefined) return fetch(url, { ...init, headers, method: "POST" });
+
+  return fetch(url, {
+    ...init,
+    method: "POST",
+    headers: {
+      "Content-Type": useMsgpack ? msgpackContentType : "application/json",
+      ...headers,
+    },
+    body: useMsgpack ? encodeMsgpack(input) : JSON.stringify(input),
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Consumes a subscription's event stream until it completes or `op.signal`
+ * aborts. Dropped connections are reopened with exponential backoff, sending
+ * the last seen event id as `Last-Event-ID`. Any other failure ends the
+ * subscription: errors reported by the server, unreadable events and errors
+ * thrown by the observer.
+ */
+async function subscribeEventStream(url: string, op: Operation, runtime: ClientRuntime): Promise<void> {
+  const { fetch, transformer } = runtime;
+  const observer = op.observer ?? {};
+  let lastEventId: string | undefined;
+  let delay = initialReconnectDelayMs;
+
+  while (!op.signal?.aborted) {
+    const headers: Record<string, string> = { ...op.headers, Accept: "text/event-stream" };
+    if (lastEventId !== undefined) headers["Last-Event-ID"] = lastEventId;
+
+    let response: Response | undefined;
+    try {
+      response = await send(url, op.type, serializeInput(transformer, op.input), {
+        fetch,
+        headers,
+        signal: op.signal,
+      });
+    } catch {
+      // The server is unreachable; try again below.
+      if (op.signal?.aborted) return;
+    }
+
+    if (response) {
+      if (!response.ok || !response.body) {
+        await parseResponse(op.path, response);
+        throw new FastRPCClientError({
+          message: "Subscription response has no body",
+          status: response.status,
+          path: op.path,
+        });
+      }
+
+      observer.onStarted?.();
+
+      let completed = false;
+      // Set when handling an event fails, as opposed to reading the stream.
+      let failure = undefined as { error: unknown } | undefined;
+      try {
+        await readEventStream(response.body, (event) => {
+          try {
+            if (event.id !== undefined) lastEventId = event.id;
+
+            if (event.event === "complete") {
+              completed = true;
+            } else if (event.event === "error") {
+              const { status, body } = JSON.parse(event.data);
+              throw FastRPCClientError.fromResponseBody(body, { status, path: op.path });
+            } else {
+              observer.onData?.(transformer.deserialize(JSON.parse(event.data)));
+              // Only a connection that delivered data counts as recovered.
+              delay = initialReconnectDelayMs;
+            }
+          } catch (error) {
+            failure = { error };
+            throw error;
+          }
+        });
+      } catch {
+        if (op.signal?.aborted) return;
+        if (failure) throw failure.error;
+      }
+      if (completed) return;
+    }
+
+    await sleep(delay, op.signal);
+    delay = Math.min(delay * 2, maxReconnectDelayMs);
+  }
+}
+
+/**
+ * Sends every operation as its own HTTP request: queries as GET with the input
+ * in the search params, mutations as POST with a JSON body, and subscriptions
+ * as a GET that streams server-sent events.
+ */
+export function httpLink(): ClientLink {
+  return (runtime) => async (op) => {
+    const { baseUrl, fetch, transformer, encoding } = runtime;
+    const url = `${baseUrl}/${op.path}`;
+    if (op.type === "subscription") {
+      return subscribeEventStream(url, op, runtime);
+    }
+    const response = await send(url, op.type, serializeInput(transformer, op.input), {
+      fetch,
+      encoding,
+      headers: op.headers,
+      signal: op.signal,
+    });
+    return transformer.deserialize(await parseResponse(op.path, response, encoding));
+  };
+}
+
+/**
+ * Coalesces operations made in the same tick into one request per procedure
+ * type, e.g. `GET /getUser,listUsers?batch=1`. Batches larger than
+ * `maxBatchSize` are split; keep it at or below the server's limit. Query
+ * batches are also split when their inputs would not fit in one URL.
+ */
+export function httpBatchLink(opts: { maxBatchSize?: number } = {}): ClientLink {
+  const maxBatchSize = opts.maxBatchSize ?? defaultMaxBatchSize;
+
+  return (runtime) => {
+    const { baseUrl, fetch, transformer, encoding } = runtime;
+    // Operations are batched with others of the same type and headers.
+    let queues = new Map<string, PendingOperation[]>();
+    let scheduled = false;
+
+    const sendBatch = async (type: "query" | "mutation", batch: PendingOperation[]) => {
+      const path = batch.map(({ op }) => op.path).join(",");
+
+      try {
+        const response = await send(`${baseUrl}/${path}?batch=1`, type, batchInputs(batch), {
+          fetch,
+          encoding,
+          headers: batch[0].op.headers,
+        });
+        const entries = (await parseResponse(path, response, encoding)) as BatchEntry[];
+        if (!Array.isArray(entries) || entries.length !== batch.length) {
+          throw new FastRPCClientError({
+            message: "Malformed batch response",
+            status: response.status,
+            path,
+          });
+        }
+
+        batch.forEach(({ op, resolve, reject }, index) => {
+          const { status, body } = entries[index];
+          if (status >= 400) {
+            reject(FastRPCClientError.fromResponseBody(body, { status, path: op.path }));
+          } else {
+            resolve(transformer.deserialize(body));
+          }
+        });
+      } catch (error) {
+        batch.forEach(({ reject }) => reject(error));
+      }
+    };
+
+    const split = (pending: PendingOperation[]): PendingOperation[][] => {
+      const batches: PendingOperation[][] = [];
+      let batch: PendingOperation[] = [];
+      for (const entry of pending) {
+        const grown = [...batch, entry];
+        const tooLarge =
+          grown.length > maxBatchSize ||
+          (entry.op.type === "query" && JSON.stringify(batchInputs(grown)).length > maxQueryInputLength);
+        // A single call too large for a URL is still sent, and fails as it would on its own.
+        if (tooLarge && batch.length) {
+          batches.push(batch);
+          batch = [entry];
+        } else {
+          batch = grown;
+        }
+      }
+      if (batch.length) batches.push(batch);
+      return batches;
+    };
+
+    const flush = () => {
+      scheduled = false;
+      const flushed = queues;
+      queues = new Map();
+      for (const queue of flushed.values()) {
+        // Calls aborted while queued are left out; their promises already rejected.
+        const pending = queue.filter(({ op }) => !op.signal?.aborted);
+        for (const batch of split(pending)) {
+          void sendBatch(batch[0].op.type as "query" | "mutation", batch);
+        }
+      }
+    };
+
+    return (op) => {
+      // Subscriptions are long-lived streams and are never batched.
+      if (op.type === "subscription") {
+        return subscribeEventStream(`${baseUrl}/${op.path}`, op, runtime);
+      }
+
+      const key = `${op.type}:${JSON.stringify(op.headers ?? {})}`;
+      const queue = queues.get(key) ?? [];
+      queues.set(key, queue);
+      return new Promise((resolve, reject) => {
+        queue.push({ op, input: serializeInput(transformer, op.input), resolve, reject });
+        if (!scheduled) {
+          scheduled = true;
+          setTimeout(flush, 0);
+        }
+      });
+    };
+  };
+}
+
+/**
+ * Adds headers to every operation, e.g. an auth token fetched asynchronously.
+ * The headers of a call take precedence over the ones returned here.
+ */
+export function headersLink(
+  getHeaders: (op: Operation) => Record<string, string> | Promise<Record<string, string>>
+): ClientLink {
+  return () => async (op, next) => next({ ...op, headers: { ...(await getHeaders(op)), ...op.headers } });
+}
+
+// Transient statuses: timeouts, rate limits and unavailable servers.
+const retryableStatuses = [408, 429, 500, 502, 503, 504];
+
+type RetryLinkOptions = {
+  /** Retries after the first attempt. Defaults to 3. */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one. Defaults to 300ms. */
+  baseDelayMs?: number;
+  /** Upper bound of the delay. Defaults to 10s. */
+  maxDelayMs?: number;
+  /**
+   * Whether an error is worth retrying. Defaults to network failures and
+   * responses with status 408, 429, 500, 502, 503 or 504.
+   */
+  retryOn?: (error: unknown, op: Operation) => boolean;
+};
+
+export type { RetryLinkOptions };
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof FastRPCClientError) return retryableStatuses.includes(error.status);
+  // `fetch` rejects with a TypeError when the request could not be sent.
+  return error instanceof TypeError;
+}
+
+/**
+ * Retries failed queries with exponential backoff and full jitter. Mutations
+ * and subscriptions are never retried, since they may not be idempotent or
+ * reconnect on their own; neither are aborted calls.
+ */
+export function retryLink(opts: RetryLinkOptions = {}): ClientLink {
+  const retries = opts.retries ?? 3;
+  const baseDelayMs = opts.baseDelayMs ?? 300;
+  const maxDelayMs = opts.maxDelayMs ?? 10_000;
+  const retryOn = opts.retryOn ?? isRetryable;
+
+  return () => async (op, next) => {
+    if (op.type !== "query") return next(op);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await next(op);
+      } catch (error) {
+        if (attempt >= retries || op.signal?.aborted || !retryOn(error, op)) throw error;
+        await sleep(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt), op.signal);
+        if (op.signal?.aborted) throw error;
+      }
+    }
+  };
+}
+
+type LogEntry = {
+  /** `up` when the operation starts, `down` when it settles. */
+  direction: "up" | "down";
+  op: Operation;
+  /** Set on `down` entries. */
+  durationMs?: number;
+  result?: unknown;
+  error?: unknown;
+};
+
+export type { LogEntry };
+
+function logToConsole({ direction, op, durationMs, result, error }: LogEntry) {
+  if (direction === "up") {
+    console.log(`>> ${op.type} ${op.path}`, op.input);
+  } else if (error !== undefined) {
+    console.error(`<< ${op.type} ${op.path} failed after ${durationMs}ms`, error);
+  } else {
+    console.log(`<< ${op.type} ${op.path} ${durationMs}ms`, result);
+  }
+}
+
+/**
+ * Logs every operation when it starts and when it settles, to the console
+ * unless `log` is given. Place it first to see calls as made, after
+ * `retryLink` to see each attempt.
+ */
+export function loggerLink(
+  opts: { log?: (entry: LogEntry) => void; enabled?: (op: Operation) => boolean } = {}
+): ClientLink {
+  const log = opts.log ?? logToConsole;
+
+  return () => async (op, next) => {
+    if (opts.enabled && !opts.enabled(op)) return next(op);
+
+    const start = Date.now();
+    log({ direction: "up", op });
+    try {
+      const result = await next(op);
+      log({ direction: "down", op, durationMs: Date.now() - start, result });
+      return result;
+    } catch (error) {
+      log({ direction: "down", op, durationMs: Date.now() - start, error });
+      throw error;
+    }
+  };
+}
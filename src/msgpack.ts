@@ -0,0 +1,340 @@
+/**
+ * A MessagePack codec for the values JSON can represent, plus `bigint`
+ * (as 64-bit integers) and `Uint8Array` (as binary). Encoding follows
+ * `JSON.stringify`: `toJSON` is called and `undefined` properties are left out.
+ */
+
+export const msgpackContentType = "application/msgpack";
+
+const minInt64 = -(2n ** 63n);
+const maxUint64 = 2n ** 64n - 1n;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.bytes.length) return;
+    const bytes = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size));
+    bytes.set(this.bytes);
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  u8(value: number) {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number) {
+    this.reserve(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  u64(value: bigint) {
+    this.reserve(8);
+    this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  i64(value: bigint) {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, value);
+    this.length += 8;
+  }
+
+  f64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  raw(bytes: Uint8Array) {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+type LengthCodes = {
+  /** Prefix of the "fix" format holding lengths up to `fixMax` in the type byte. */
+  fix?: number;
+  fixMax?: number;
+  len8?: number;
+  len16: number;
+  len32: number;
+};
+
+const stringCodes: LengthCodes = { fix: 0xa0, fixMax: 31, len8: 0xd9, len16: 0xda, len32: 0xdb };
+const binaryCodes: LengthCodes = { len8: 0xc4, len16: 0xc5, len32: 0xc6 };
+const arrayCodes: LengthCodes = { fix: 0x90, fixMax: 15, len16: 0xdc, len32: 0xdd };
+const mapCodes: LengthCodes = { fix: 0x80, fixMax: 15, len16: 0xde, len32: 0xdf };
+
+function writeLength(writer: Writer, length: number, codes: LengthCodes) {
+  if (codes.fix !== undefined && length <= codes.fixMax!) {
+    writer.u8(codes.fix | length);
+  } else if (codes.len8 !== undefined && length <= 0xff) {
+    writer.u8(codes.len8);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(codes.len16);
+    writer.u16(length);
+  } else {
+    writer.u8(codes.len32);
+    writer.u32(length);
+  }
+}
+
+function writeInteger(writer: Writer, value: number) {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(BigInt(value));
+    }
+  } else if (value >= -0x20) {
+    writer.u8(value & 0xff);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.u8(value & 0xff);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.u16(value & 0xffff);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.u32(value >>> 0);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(BigInt(value));
+  }
+}
+
+function write(writer: Writer, value: unknown): void {
+  if (value !== null && typeof value === "object" && typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    value = (value as { toJSON(): unknown }).toJSON();
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      writer.u8(value ? 0xc3 : 0xc2);
+      return;
+    case "number":
+      if (Number.isSafeInteger(value)) {
+        writeInteger(writer, value);
+      } else if (Number.isFinite(value)) {
+        writer.u8(0xcb);
+        writer.f64(value);
+      } else {
+        writer.u8(0xc0);
+      }
+      return;
+    case "bigint":
+      if (value < minInt64 || value > maxUint64) throw new RangeError(`${value} does not fit in 64 bits`);
+      writer.u8(value < 0 ? 0xd3 : 0xcf);
+      if (value < 0) writer.i64(value);
+      else writer.u64(value);
+      return;
+    case "string": {
+      const bytes = textEncoder.encode(value);
+      writeLength(writer, bytes.length, stringCodes);
+      writer.raw(bytes);
+      return;
+    }
+    case "object":
+      break;
+    default:
+      // `undefined` and functions: `null` in arrays, like JSON.
+      writer.u8(0xc0);
+      return;
+  }
+
+  if (value === null) {
+    writer.u8(0xc0);
+  } else if (value instanceof Uint8Array) {
+    writeLength(writer, value.length, binaryCodes);
+    writer.raw(value);
+  } else if (Array.isArray(value)) {
+    writeLength(writer, value.length, arrayCodes);
+    for (const item of value) write(writer, item);
+  } else {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined && typeof entry !== "function");
+    writeLength(writer, entries.length, mapCodes);
+    for (const [key, entry] of entries) {
+      write(writer, key);
+      write(writer, entry);
+    }
+  }
+}
+
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const writer = new Writer();
+  write(writer, value);
+  return writer.result();
+}
+
+class Reader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private advance(size: number): number {
+    const offset = this.offset;
+    if (offset + size > this.bytes.length) throw new RangeError("Unexpected end of MessagePack data");
+    this.offset += size;
+    return offset;
+  }
+
+  u8 = () => this.view.getUint8(this.advance(1));
+  u16 = () => this.view.getUint16(this.advance(2));
+  u32 = () => this.view.getUint32(this.advance(4));
+  i8 = () => this.view.getInt8(this.advance(1));
+  i16 = () => this.view.getInt16(this.advance(2));
+  i32 = () => this.view.getInt32(this.advance(4));
+  f32 = () => this.view.getFloat32(this.advance(4));
+  f64 = () => this.view.getFloat64(this.advance(8));
+
+  u64(): number | bigint {
+    const value = this.view.getBigUint64(this.advance(8));
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  i64(): number | bigint {
+    const value = this.view.getBigInt64(this.advance(8));
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  raw(length: number): Uint8Array {
+    const offset = this.advance(length);
+    return this.bytes.subarray(offset, offset + length);
+  }
+}
+
+function readString(reader: Reader, length: number): string {
+  return textDecoder.decode(reader.raw(length));
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  const array = new Array(length);
+  for (let i = 0; i < length; i++) array[i] = read(reader);
+  return array;
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = String(read(reader));
+    const value = read(reader);
+    // Keys such as `__proto__` must become own properties.
+    Object.defineProperty(map, key, { value, enumerable: true, writable: true, configurable: true });
+  }
+  return map;
+}
+
+function read(reader: Reader): unknown {
+  const code = reader.u8();
+
+  if (code < 0x80) return code;
+  if (code >= 0xe0) return code - 0x100;
+  if (code >= 0xa0 && code <= 0xbf) return readString(reader, code & 0x1f);
+  if (code >= 0x90 && code <= 0x9f) return readArray(reader, code & 0x0f);
+  if (code >= 0x80 && code <= 0x8f) return readMap(reader, code & 0x0f);
+
+  switch (code) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.raw(reader.u8()).slice();
+    case 0xc5:
+      return reader.raw(reader.u16()).slice();
+    case 0xc6:
+      return reader.raw(reader.u32()).slice();
+    case 0xca:
+      return reader.f32();
+    case 0xcb:
+      return reader.f64();
+    case 0xcc:
+      return reader.u8();
+    case 0xcd:
+      return reader.u16();
+    case 0xce:
+      return reader.u32();
+    case 0xcf:
+      return reader.u64();
+    case 0xd0:
+      return reader.i8();
+    case 0xd1:
+      return reader.i16();
+    case 0xd2:
+      return reader.i32();
+    case 0xd3:
+      return reader.i64();
+    case 0xd9:
+      return readString(reader, reader.u8());
+    case 0xda:
+      return readString(reader, reader.u16());
+    case 0xdb:
+      return readString(reader, reader.u32());
+    case 0xdc:
+      return readArray(reader, reader.u16());
+    case 0xdd:
+      return readArray(reader, reader.u32());
+    case 0xde:
+      return readMap(reader, reader.u16());
+    case 0xdf:
+      return readMap(reader, reader.u32());
+  }
+  throw new TypeError(`Unsupported MessagePack type 0x${code.toString(16)}`);
+}
+
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes);
+  const value = read(reader);
+  if (reader.offset !== bytes.length) throw new TypeError("Unexpected data after MessagePack value");
+  return value;
+}
+
+/** Whether an `Accept` header lists MessagePack, ignoring media ranges with `q=0`. */
+export function acceptsMsgpack(accept: string | null): boolean {
+  if (!accept) return false;
+  return accept.split(",").some((range) => {
+    const [type, ...params] = range.split(";").map((part) => part.trim().toLowerCase());
+    return type === msgpackContentType && !params.some((param) => /^q=0(\.0*)?$/.test(param));
+  });
+}
+
+export function isMsgpack(contentType: string | null): boolean {
+  return contentType?.split(";")[0].trim().toLowerCase() === msgpackContentType;
+}
@@ -0,0 +1,165 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { FastRPCError, getErrorShape } from "./errors";
+import type { AnyRouter } from "./index";
+
+/**
+ * Express/Connect leave the parsed body on the request and strip the mount
+ * path from `url`, keeping the full one in `originalUrl`.
+ */
+type ExpressRequest = IncomingMessage & { body?: unknown; originalUrl?: string };
+
+type NodeHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+type NodeMiddleware = (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void;
+
+export type { NodeHandler, NodeMiddleware };
+
+function toHeaders(req: IncomingMessage): [string, string][] {
+  const headers: [string, string][] = [];
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      for (const item of value) headers.push([name, item]);
+    } else if (value !== undefined) {
+      headers.push([name, value]);
+    }
+  }
+  return headers;
+}
+
+function toBody(req: ExpressRequest): RequestInit["body"] {
+  if (req.method === "GET" || req.method === "HEAD") return undefined;
+
+  // A body parser ran before us and consumed the stream.
+  if (req.body !== undefined && req.readableEnded) {
+    if (typeof req.body === "string" || req.body instanceof Uint8Array) return req.body;
+    return JSON.stringify(req.body);
+  }
+
+  // Nothing is read until the body is used, so the body of a request the
+  // router does not serve is left for the next middleware.
+  let iterator: AsyncIterator<Buffer | string> | undefined;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        iterator ??= req[Symbol.asyncIterator]();
+        const { value, done } = await iterator.next();
+        if (done) controller.close();
+        else controller.enqueue(typeof value === "string" ? new TextEncoder().encode(value) : new Uint8Array(value));
+      },
+      cancel() {
+        void iterator?.return?.();
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+/**
+ * Converts an `IncomingMessage` to a Fetch `Request`. Its signal aborts when
+ * the client disconnects before the response is finished.
+ */
+function toRequest(req: ExpressRequest, res: ServerResponse): Request {
+  const controller = new AbortController();
+  res.once("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const encrypted = (req.socket as { encrypted?: boolean }).encrypted;
+  const url = new URL(
+    req.originalUrl ?? req.url ?? "/",
+    `${encrypted ? "https" : "http"}://${req.headers.host ?? "localhost"}`
+  );
+  const body = toBody(req);
+
+  return new Request(url, {
+    method: req.method,
+    headers: toHeaders(req),
+    body,
+    signal: controller.signal,
+    // Required by Node's fetch for streamed request bodies.
+    ...(body instanceof ReadableStream && { duplex: "half" }),
+  } as RequestInit);
+}
+
+function waitForDrain(res: ServerResponse): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+/**
+ * Writes a Fetch `Response` to a `ServerResponse`, streaming the body and
+ * respecting backpressure. Stops when the client disconnects.
+ */
+async function sendResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    if (name !== "set-cookie") res.setHeader(name, value);
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length) res.setHeader("set-cookie", cookies);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+  // Send the headers of event streams right away rather than with the first event.
+  if (response.headers.get("Content-Type")?.startsWith("text/event-stream")) res.flushHeaders();
+
+  const reader = response.body.getReader();
+  try {
+    while (!res.destroyed) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (!res.write(value)) await waitForDrain(res);
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+    res.end();
+  }
+}
+
+/**
+ * Serves a router with `node:http` or `node:https` servers:
+ * `http.createServer(createNodeHandler(api))`. Requests are converted to Fetch
+ * `Request`s for `router.handle`, so everything else behaves as in Bun.
+ */
+export function createNodeHandler(router: AnyRouter): NodeHandler {
+  return async (req, res) => {
+    try {
+      const response = await router.handle(toRequest(req, res));
+      await sendResponse(response, res);
+    } catch (cause) {
+      // Node servers do not catch listener rejections; they would crash the process.
+      console.error(cause);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      const error = new FastRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Internal server error" });
+      res.statusCode = error.status;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ error: getErrorShape(error) }));
+    }
+  };
+}
+
+/**
+ * The Express/Connect form of `createNodeHandler`: `app.use(createNodeMiddleware(api))`.
+ * Requests the router does not serve (see `tryHandle`) go on to `next`, as do
+ * unexpected errors. Bodies already parsed by `express.json()` are reused.
+ */
+export function createNodeMiddleware(router: AnyRouter): NodeMiddleware {
+  return (req, res, next) => {
+    router
+      .tryHandle(toRequest(req, res))
+      .then((response) => (response ? sendResponse(response, res) : next()))
+      .catch(next);
+  };
+}
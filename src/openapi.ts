@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { errorCodeToHttpStatus } from "./errors";
+import type { AnyRouter, ProcedureMeta } from "./index";
+import { zodToJsonSchema } from "./json-schema";
+import type { JSONSchema } from "./json-schema";
+import type { ProcedureType } from "./links";
+import { flattenProcedures } from "./utils";
+
+type OpenAPIOptions = {
+  title: string;
+  version: string;
+  description?: string;
+  /** The URL the router is served at, listed as the document's server. */
+  baseUrl?: string;
+};
+
+type OpenAPIOperation = {
+  operationId: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: unknown[];
+  requestBody?: unknown;
+  responses: Record<string, unknown>;
+};
+
+type OpenAPIDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  paths: Record<string, { get?: OpenAPIOperation; post?: OpenAPIOperation }>;
+  components: {
+    schemas: Record<string, JSONSchema>;
+    responses: Record<string, unknown>;
+  };
+};
+
+export type { OpenAPIOptions, OpenAPIDocument };
+
+/** What the document needs to know about one procedure. */
+type ProcedureDescription = {
+  type: ProcedureType;
+  input?: z.ZodTypeAny;
+  output?: z.ZodTypeAny;
+  meta?: ProcedureMeta;
+};
+
+const errorSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    error: {
+      type: "object",
+      properties: {
+        code: { type: "string", enum: Object.keys(errorCodeToHttpStatus) },
+        message: { type: "string" },
+        data: {},
+      },
+      required: ["code", "message"],
+    },
+  },
+  required: ["error"],
+};
+
+const errorResponse = { $ref: "#/components/responses/Error" };
+
+function jsonContent(schema: JSONSchema) {
+  return { "application/json": { schema } };
+}
+
+function describeOperation(path: string, procedure: ProcedureDescription): OpenAPIOperation {
+  const input = procedure.input && zodToJsonSchema(procedure.input, "input");
+  const output = procedure.output ? zodToJsonSchema(procedure.output, "output") : {};
+
+  const operation: OpenAPIOperation = {
+    operationId: path,
+    responses: {
+      "200":
+        procedure.type === "subscription"
+          ? {
+              description: "A stream of server-sent events; each `data` event carries one value",
+              content: { "text/event-stream": { schema: output } },
+            }
+          : { description: "Successful response", content: jsonContent(output) },
+      default: errorResponse,
+    },
+  };
+
+  const { description, tags, deprecated } = procedure.meta ?? {};
+  if (description !== undefined) operation.description = description;
+  if (tags?.length) operation.tags = tags;
+  if (deprecated) operation.deprecated = true;
+
+  if (input && procedure.type === "mutation") {
+    operation.requestBody = { required: !procedure.input!.isOptional(), content: jsonContent(input) };
+  } else if (input) {
+    operation.parameters = [
+      {
+        name: "input",
+        in: "query",
+        description: "The input, serialized as JSON",
+        required: !procedure.input!.isOptional(),
+        content: jsonContent(input),
+      },
+    ];
+  }
+
+  return operation;
+}
+
+/**
+ * Builds the document from `[path, procedure]` pairs. Used by
+ * `generateOpenAPI` and by routers serving `/openapi.json`.
+ */
+export function createOpenAPIDocument(
+  procedures: Iterable<[string, ProcedureDescription]>,
+  opts: OpenAPIOptions
+): OpenAPIDocument {
+  const paths: OpenAPIDocument["paths"] = {};
+  for (const [path, procedure] of procedures) {
+    const method = procedure.type === "mutation" ? "post" : "get";
+    paths[`/${path}`] = { [method]: describeOperation(path, procedure) };
+  }
+
+  const info: OpenAPIDocument["info"] = { title: opts.title, version: opts.version };
+  if (opts.description !== undefined) info.description = opts.description;
+
+  const document: OpenAPIDocument = {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      schemas: { Error: errorSchema },
+      responses: {
+        Error: {
+          description: "The error envelope; the HTTP status follows `error.code`",
+          content: jsonContent({ $ref: "#/components/schemas/Error" }),
+        },
+      },
+    },
+  };
+  if (opts.baseUrl !== undefined) document.servers = [{ url: opts.baseUrl }];
+  return document;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document for a router. Queries (and subscriptions)
+ * are described as GET operations taking a JSON `input` search param,
+ * mutations as POST operations taking a JSON body. Zod schemas are converted
+ * to JSON Schema; errors use the default envelope, so a custom
+ * `errorFormatter` is not reflected.
+ */
+export function generateOpenAPI(router: AnyRouter, opts: OpenAPIOptions): OpenAPIDocument {
+  const procedures = [...flattenProcedures(router.procedures)].map(
+    ([path, procedure]): [string, ProcedureDescription] => [
+      path,
+      { type: procedure._type, input: procedure.input, output: procedure.output, meta: procedure._meta },
+    ]
+  );
+  return createOpenAPIDocument(procedures, opts);
+}
@@ -0,0 +1,126 @@
+import { FastRPCError } from "./errors";
+import type { MiddlewareFunction } from "./index";
+import type { ProcedureType } from "./links";
+
+/**
+ * How many calls a key may make. A fixed window allows `limit` calls per
+ * `windowMs`; a token bucket holds up to `limit` tokens, refilled at
+ * `refillPerSecond`, and allows bursts while it has some left.
+ */
+type RateLimitRule =
+  | { algorithm?: "fixed-window"; limit: number; windowMs: number }
+  | { algorithm: "token-bucket"; limit: number; refillPerSecond: number };
+
+type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the window resets or the bucket is full again. */
+  resetMs: number;
+  /** Milliseconds until a call would be allowed again; set when denied. */
+  retryAfterMs?: number;
+};
+
+/**
+ * Keeps the counters of `rateLimit`. Implement it to share limits between
+ * processes, e.g. with Redis; `consume` must count the call atomically.
+ */
+type RateLimitStore = {
+  consume(key: string, rule: RateLimitRule): RateLimitResult | Promise<RateLimitResult>;
+};
+
+type RateLimitOptions<TContext> = RateLimitRule & {
+  /** Who the limit applies to, e.g. the user id or client IP from the context. */
+  key: (opts: { ctx: TContext; path: string; type: ProcedureType }) => string | Promise<string>;
+  /** Defaults to a `createMemoryRateLimitStore()` of its own. */
+  store?: RateLimitStore;
+  message?: string;
+};
+
+export type { RateLimitRule, RateLimitResult, RateLimitStore, RateLimitOptions };
+
+// How often the memory store drops counters that have run out.
+const sweepIntervalMs = 60_000;
+
+/** A `RateLimitStore` for a single process. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  const buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+  let nextSweep = Date.now() + sweepIntervalMs;
+
+  const sweep = (now: number) => {
+    if (now < nextSweep) return;
+    nextSweep = now + sweepIntervalMs;
+    for (const [key, window] of windows) if (window.resetAt <= now) windows.delete(key);
+    for (const [key, bucket] of buckets) if (bucket.fullAt <= now) buckets.delete(key);
+  };
+
+  return {
+    consume(key, rule) {
+      const now = Date.now();
+      sweep(now);
+
+      if (rule.algorithm === "token-bucket") {
+        const msPerToken = 1000 / rule.refillPerSecond;
+        const bucket = buckets.get(key);
+        let tokens = bucket ? Math.min(rule.limit, bucket.tokens + (now - bucket.updatedAt) / msPerToken) : rule.limit;
+
+        const allowed = tokens >= 1;
+        if (allowed) tokens -= 1;
+        const resetMs = Math.ceil((rule.limit - tokens) * msPerToken);
+        buckets.set(key, { tokens, updatedAt: now, fullAt: now + resetMs });
+
+        return {
+          allowed,
+          limit: rule.limit,
+          remaining: Math.floor(tokens),
+          resetMs,
+          retryAfterMs: allowed ? undefined : Math.ceil((1 - tokens) * msPerToken),
+        };
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + rule.windowMs };
+        windows.set(key, window);
+      }
+      const allowed = window.count < rule.limit;
+      if (allowed) window.count += 1;
+      const resetMs = window.resetAt - now;
+
+      return {
+        allowed,
+        limit: rule.limit,
+        remaining: rule.limit - window.count,
+        resetMs,
+        retryAfterMs: allowed ? undefined : resetMs,
+      };
+    },
+  };
+}
+
+/**
+ * Middleware limiting how often each key may call. Sets `RateLimit-Limit`,
+ * `RateLimit-Remaining` and `RateLimit-Reset` on every response, and fails
+ * calls over the limit with `TOO_MANY_REQUESTS` and a `Retry-After` header.
+ * Use it per procedure with `.use(rateLimit({ ... }))` or for a whole router
+ * through its `middleware` option.
+ */
+export function rateLimit<TContext = any>(options: RateLimitOptions<TContext>): MiddlewareFunction<TContext> {
+  const { key, store = createMemoryRateLimitStore(), message, ...rule } = options;
+
+  return async ({ ctx, path, type, next }) => {
+    const result = await store.consume(await key({ ctx, path, type }), rule as RateLimitRule);
+
+    ctx.res
+      .setHeader("RateLimit-Limit", String(result.limit))
+      .setHeader("RateLimit-Remaining", String(Math.max(0, result.remaining)))
+      .setHeader("RateLimit-Reset", String(Math.ceil(result.resetMs / 1000)));
+
+    if (!result.allowed) {
+      ctx.res.setHeader("Retry-After", String(Math.ceil((result.retryAfterMs ?? result.resetMs) / 1000)));
+      throw new FastRPCError({ code: "TOO_MANY_REQUESTS", message: message ?? "Rate limit exceeded" });
+    }
+    return next();
+  };
+}
@@ -0,0 +1,99 @@
+type CookieOptions = {
+  domain?: string;
+  path?: string;
+  expires?: Date;
+  /** Lifetime in seconds; `0` deletes the cookie. */
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+  partitioned?: boolean;
+};
+
+/**
+ * `ctx.res`: shapes the response of the current request. Headers and cookies
+ * also apply to error responses; the status only to successful ones.
+ */
+type ResponseMeta = {
+  /** Sets a response header, replacing an earlier value. */
+  setHeader(name: string, value: string): ResponseMeta;
+  /** Adds a `Set-Cookie` header. The value is URI-encoded. */
+  setCookie(name: string, value: string, options?: CookieOptions): ResponseMeta;
+  /** Sets the status of a successful response, e.g. `201`. */
+  status(code: number): ResponseMeta;
+};
+
+export type { CookieOptions, ResponseMeta };
+
+// Statuses whose responses must not have a body.
+const nullBodyStatuses = [204, 205, 304];
+
+const cookieNamePattern = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!cookieNamePattern.test(name)) throw new TypeError(`Invalid cookie name "${name}"`);
+
+  let cookie = `${name}=${encodeURIComponent(value)}`;
+  if (options.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+  if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+  if (options.domain) cookie += `; Domain=${options.domain}`;
+  if (options.path) cookie += `; Path=${options.path}`;
+  if (options.httpOnly) cookie += "; HttpOnly";
+  if (options.secure) cookie += "; Secure";
+  if (options.sameSite) cookie += `; SameSite=${options.sameSite[0].toUpperCase()}${options.sameSite.slice(1)}`;
+  if (options.partitioned) cookie += "; Partitioned";
+  return cookie;
+}
+
+/**
+ * Creates the `ctx.res` of one request along with the means to apply what the
+ * procedure set to the response `handle` builds.
+ */
+export function createResponseMeta() {
+  let statusCode: number | undefined;
+  const headers = new Map<string, [string, string]>();
+  const cookies: string[] = [];
+
+  const res: ResponseMeta = {
+    setHeader(name, value) {
+      headers.set(name.toLowerCase(), [name, value]);
+      return res;
+    },
+    setCookie(name, value, options) {
+      cookies.push(serializeCookie(name, value, options));
+      return res;
+    },
+    status(code) {
+      if (!Number.isInteger(code) || code < 200 || code > 599) {
+        throw new RangeError(`Invalid response status ${code}`);
+      }
+      statusCode = code;
+      return res;
+    },
+  };
+
+  return {
+    res,
+    get status(): number | undefined {
+      return statusCode;
+    },
+    /**
+     * Returns `response` with the headers and cookies applied, and the status
+     * unless `keepStatus` is set.
+     */
+    apply(response: Response, { keepStatus = false } = {}): Response {
+      const status = keepStatus ? response.status : (statusCode ?? response.status);
+      if (!headers.size && !cookies.length && status === response.status) return response;
+
+      // Responses from `fetch` or middleware may have immutable headers.
+      const applied = new Response(nullBodyStatuses.includes(status) ? null : response.body, {
+        status,
+        statusText: status === response.status ? response.statusText : "",
+        headers: response.headers,
+      });
+      for (const [name, value] of headers.values()) applied.headers.set(name, value);
+      for (const cookie of cookies) applied.headers.append("Set-Cookie", cookie);
+      return applied;
+    },
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * A subscription value with an explicit event id. Clients send the last id they
+ * saw as `Last-Event-ID` when reconnecting, so handlers can resume from it.
+ */
+export class Tracked<TData> {
+  constructor(
+    readonly id: string,
+    readonly data: TData
+  ) {}
+}
+
+export function tracked<TData>(id: string, data: TData): Tracked<TData> {
+  return new Tracked(id, data);
+}
+
+type ServerSentEvent = {
+  id?: string;
+  event?: string;
+  data: string;
+};
+
+export type { ServerSentEvent };
+
+/**
+ * Serializes an async iterable as `text/event-stream`. Values are sent as
+ * `data` events, a thrown error as a final `error` event and the end of the
+ * iterable as a `complete` event. Comment lines are sent every
+ * `pingIntervalMs` to keep proxies from closing an idle connection.
+ */
+export function createEventStream(
+  iterable: AsyncIterable<unknown>,
+  opts: {
+    signal?: AbortSignal;
+    pingIntervalMs: number;
+    mapData: (data: unknown) => unknown;
+    mapError: (cause: unknown) => unknown;
+  }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = iterable[Symbol.asyncIterator]();
+  let closed = false;
+  let ping: ReturnType<typeof setInterval> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const stop = () => {
+    if (closed) return false;
+    closed = true;
+    clearInterval(ping);
+    if (onAbort) opts.signal?.removeEventListener("abort", onAbort);
+    void iterator.return?.();
+    return true;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (stop()) controller.close();
+      };
+
+      if (opts.signal?.aborted) {
+        close();
+        return;
+      }
+      onAbort = close;
+      opts.signal?.addEventListener("abort", onAbort);
+      ping = setInterval(() => write(": ping\n\n"), opts.pingIntervalMs);
+
+      void (async () => {
+        try {
+          for (;;) {
+            const result = await iterator.next();
+            if (closed) return;
+            if (result.done) {
+              write("event: complete\ndata: \n\n");
+              return;
+            }
+
+            const value = result.value;
+            const id = value instanceof Tracked ? `id: ${value.id}\n` : "";
+            const data = opts.mapData(value instanceof Tracked ? value.data : value);
+            write(`${id}data: ${JSON.stringify(data)}\n\n`);
+          }
+        } catch (cause) {
+          write(`event: error\ndata: ${JSON.stringify(opts.mapError(cause))}\n\n`);
+        } finally {
+          close();
+        }
+      })();
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
+
+function parseEvent(block: string): ServerSentEvent | undefined {
+  const event: ServerSentEvent = { data: "" };
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "data") data.push(value);
+    else if (field === "event") event.event = value;
+    else if (field === "id") event.id = value;
+  }
+
+  if (!data.length && event.event === undefined) return undefined;
+  event.data = data.join("\n");
+  return event;
+}
+
+/**
+ * Reads a `text/event-stream` body and calls `onEvent` for every event.
+ * Comments such as heartbeat pings are skipped. If `onEvent` throws, reading
+ * stops and the error is rethrown.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) onEvent(event);
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Converts values to and from what is sent over the wire, on top of JSON.
+ * Server and client must use the same transformer.
+ */
+type DataTransformer = {
+  serialize(value: unknown): unknown;
+  deserialize(value: unknown): unknown;
+};
+
+export type { DataTransformer };
+
+/** Plain JSON: values are sent as-is. */
+export const defaultTransformer: DataTransformer = {
+  serialize: (value) => value,
+  deserialize: (value) => value,
+};
+
+type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+type TypedArrayConstructor = new (values: ArrayLike<any>) => TypedArray;
+
+const typedArrays = new Map<string, TypedArrayConstructor>(
+  [
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array,
+    BigInt64Array,
+    BigUint64Array,
+  ].map((constructor: TypedArrayConstructor) => [constructor.name, constructor])
+);
+
+// Values JSON can't represent are sent as `{ $t: type, v: value }`. Plain
+// objects that have a `$t` key of their own are wrapped as `Object`.
+const tagKey = "$t";
+
+type Tagged = { $t: string; v?: unknown };
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function serializeObject(value: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) result[key] = serialize(entry);
+  return result;
+}
+
+function serialize(value: unknown): unknown {
+  switch (typeof value) {
+    case "undefined":
+      return { $t: "undefined" };
+    case "bigint":
+      return { $t: "BigInt", v: value.toString() };
+    case "number":
+      return Number.isFinite(value) ? value : { $t: "Number", v: String(value) };
+    case "object":
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) return null;
+  if (Array.isArray(value)) return value.map(serialize);
+  if (value instanceof Date) return { $t: "Date", v: isNaN(value.getTime()) ? null : value.toISOString() };
+  if (value instanceof Map) {
+    return { $t: "Map", v: [...value].map(([key, entry]) => [serialize(key), serialize(entry)]) };
+  }
+  if (value instanceof Set) return { $t: "Set", v: [...value].map(serialize) };
+  if (value instanceof RegExp) return { $t: "RegExp", v: [value.source, value.flags] };
+  if (ArrayBuffer.isView(value) && typedArrays.has(value.constructor.name)) {
+    const values = [...(value as TypedArray)];
+    return {
+      $t: value.constructor.name,
+      v: values.map((entry) => (typeof entry === "bigint" ? String(entry) : entry)),
+    };
+  }
+  if (isPlainObject(value)) {
+    const result = serializeObject(value);
+    return tagKey in value ? { $t: "Object", v: result } : result;
+  }
+  // Other class instances are left to JSON.stringify, e.g. their `toJSON`.
+  return value;
+}
+
+function deserializeObject(value: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    // Keys such as `__proto__` must become own properties.
+    Object.defineProperty(result, key, {
+      value: deserialize(entry),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return result;
+}
+
+function deserialize(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (Array.isArray(value)) return value.map(deserialize);
+  if (!(tagKey in value)) return deserializeObject(value as Record<string, unknown>);
+
+  const { $t: type, v } = value as Tagged;
+  switch (type) {
+    case "undefined":
+      return undefined;
+    case "BigInt":
+      return BigInt(v as string);
+    case "Number":
+      return Number(v);
+    case "Date":
+      return new Date(v === null ? NaN : (v as string));
+    case "Map":
+      return new Map((v as [unknown, unknown][]).map(([key, entry]) => [deserialize(key), deserialize(entry)]));
+    case "Set":
+      return new Set((v as unknown[]).map(deserialize));
+    case "RegExp":
+      return new RegExp(...(v as [string, string]));
+    case "Object":
+      return deserializeObject(v as Record<string, unknown>);
+  }
+  const TypedArray = typedArrays.get(type);
+  if (TypedArray) {
+    const values = v as (number | string)[];
+    const isBigInt = type === "BigInt64Array" || type === "BigUint64Array";
+    return new TypedArray(isBigInt ? values.map((entry) => BigInt(entry)) : values);
+  }
+  throw new TypeError(`Cannot deserialize unknown type "${type}"`);
+}
+
+/**
+ * Sends the types `structuredClone` supports, such as `Date`, `Map`, `Set`,
+ * `BigInt`, `RegExp` and typed arrays, plus `undefined` and non-finite
+ * numbers, so they arrive as they were sent. On the server, a `RegExp` input
+ * compiles a pattern the client chose: mind catastrophic backtracking before
+ * running it on long strings.
+ */
+export const structuredTransformer: DataTransformer = { serialize, deserialize };
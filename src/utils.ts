@@ -0,0 +1,35 @@
+import type { AnyRouter, Procedure, ProcedureRecord } from "./index";
+
+/**
+ * Reads a response body as JSON, falling back to the raw text for responses
+ * that middleware built by hand. An empty body, e.g. of a 204, is `undefined`.
+ */
+export async function readResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Walks a (possibly nested) procedure record and yields every procedure with
+ * its dotted path, e.g. `users.get`, and the routers it is nested in,
+ * outermost first.
+ */
+export function* flattenProcedures(
+  procedures: ProcedureRecord,
+  prefix = "",
+  routers: AnyRouter[] = []
+): Generator<[string, Procedure<any, any>, AnyRouter[]]> {
+  for (const [name, value] of Object.entries(procedures)) {
+    const path = prefix + name;
+    if ("_type" in value) {
+      yield [path, value, routers];
+    } else {
+      yield* flattenProcedures(value.procedures, `${path}.`, [...routers, value]);
+    }
+  }
+}
@@ -0,0 +1,386 @@
+import { FastRPCClientError, FastRPCError, getErrorShape } from "./errors";
+import type { AnyRouter } from "./index";
+import type { ClientLink, Operation, ProcedureType } from "./links";
+import { readEventStream } from "./sse";
+import { readResponseBody } from "./utils";
+
+/**
+ * Sent by the client. `id` is chosen by the client and unique per connection;
+ * `subscription.stop` ends the subscription (or in-flight call) with that id.
+ * `headers` are added to the upgrade request's for that call only.
+ */
+type WSClientMessage =
+  | {
+      id: number;
+      method: ProcedureType;
+      path: string;
+      input?: unknown;
+      lastEventId?: string;
+      headers?: Record<string, string>;
+    }
+  | { id: number; method: "subscription.stop" };
+
+/**
+ * Sent by the server. Queries and mutations answer with one `data` or `error`
+ * message; subscriptions send `started`, then `data` messages, and end with
+ * `complete` or `error`. Error messages carry what `handle` would have
+ * answered over HTTP.
+ */
+type WSServerMessage =
+  | { id: number | null; type: "data"; data: unknown; eventId?: string }
+  | { id: number | null; type: "error"; status: number; body: unknown }
+  | { id: number; type: "started" }
+  | { id: number; type: "complete" };
+
+/** The part of Bun's `ServerWebSocket` and the standard `WebSocket` the server needs. */
+type ServerSocket = {
+  send(data: string): unknown;
+  data?: unknown;
+};
+
+/** The part of the standard `WebSocket` interface used by `createWSClient` and `applyWebSocketHandler`. */
+type WebSocketLike = {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: "open" | "close", listener: () => void): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+};
+
+export type { WSClientMessage, WSServerMessage, ServerSocket, WebSocketLike };
+
+type Connection = {
+  req?: Request;
+  calls: Map<number, AbortController>;
+};
+
+const socketOpen = 1;
+
+const procedureTypes: string[] = ["query", "mutation", "subscription"];
+
+// Headers of the upgrade request that must not leak into calls: hop-by-hop
+// headers and content negotiation, since messages are always JSON.
+const upgradeHeaders = ["connection", "upgrade", "content-length", "content-type", "accept"];
+
+function isUpgradeHeader(name: string): boolean {
+  name = name.toLowerCase();
+  return upgradeHeaders.includes(name) || name.startsWith("sec-websocket-");
+}
+
+function isHeaderRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string")
+  );
+}
+
+function decode(data: unknown): string {
+  return typeof data === "string" ? data : new TextDecoder().decode(data as ArrayBuffer | Uint8Array);
+}
+
+function errorMessage(id: number | null, error: FastRPCError): WSServerMessage {
+  return { id, type: "error", status: error.status, body: { error: getErrorShape(error) } };
+}
+
+/**
+ * Serves a router over WebSocket connections. Every message becomes a Fetch
+ * `Request` for `router.handle`, so calls go through the same route table,
+ * `createContext`, middleware and validation as HTTP calls. The upgrade request
+ * (from `open(socket, req)` or Bun's `socket.data.req`) provides the URL and
+ * headers, e.g. cookies, of those requests.
+ *
+ * The returned object can be passed as-is to `Bun.serve({ websocket })`.
+ */
+export function createWebSocketHandler(router: AnyRouter) {
+  const connections = new WeakMap<object, Connection>();
+
+  const send = (socket: ServerSocket, message: WSServerMessage) => {
+    socket.send(JSON.stringify(message));
+  };
+
+  const toRequest = (
+    connection: Connection,
+    message: Extract<WSClientMessage, { path: string }>,
+    signal: AbortSignal
+  ) => {
+    const origin = connection.req ? new URL(connection.req.url).origin : "http://localhost";
+    const headers = new Headers(connection.req?.headers);
+    for (const name of [...headers.keys()]) {
+      if (isUpgradeHeader(name)) headers.delete(name);
+    }
+    for (const [name, value] of Object.entries(message.headers ?? {})) {
+      if (isUpgradeHeader(name)) continue;
+      try {
+        headers.set(name, value);
+      } catch (cause) {
+        throw new FastRPCError({ code: "BAD_REQUEST", message: `Invalid header "${name}"`, cause });
+      }
+    }
+
+    let url = `${origin}${router.basePath ?? ""}/${message.path}`;
+    if (message.method === "mutation") {
+      if (message.input === undefined) return new Request(url, { method: "POST", headers, signal });
+      headers.set("Content-Type", "application/json");
+      return new Request(url, { method: "POST", headers, body: JSON.stringify(message.input), signal });
+    }
+
+    if (message.input !== undefined) url += `?input=${encodeURIComponent(JSON.stringify(message.input))}`;
+    if (message.method === "subscription") {
+      headers.set("Accept", "text/event-stream");
+      if (message.lastEventId !== undefined) headers.set("Last-Event-ID", message.lastEventId);
+    }
+    return new Request(url, { method: "GET", headers, signal });
+  };
+
+  const run = async (
+    socket: ServerSocket,
+    connection: Connection,
+    message: Extract<WSClientMessage, { path: string }>
+  ) => {
+    const { id } = message;
+    const controller = new AbortController();
+    connection.calls.set(id, controller);
+
+    try {
+      const response = await router.handle(toRequest(connection, message, controller.signal));
+      const isStream = response.headers.get("Content-Type")?.startsWith("text/event-stream");
+
+      if (!isStream || !response.body) {
+        const body = await readResponseBody(response);
+        send(
+          socket,
+          response.ok ? { id, type: "data", data: body } : { id, type: "error", status: response.status, body }
+        );
+        return;
+      }
+
+      send(socket, { id, type: "started" });
+      await readEventStream(response.body, (event) => {
+        if (event.event === "complete") {
+          send(socket, { id, type: "complete" });
+        } else if (event.event === "error") {
+          const { status, body } = JSON.parse(event.data);
+          send(socket, { id, type: "error", status, body });
+        } else {
+          send(socket, { id, type: "data", data: JSON.parse(event.data), eventId: event.id });
+        }
+      });
+    } catch (cause) {
+      if (!controller.signal.aborted) {
+        // Only `toRequest` throws `FastRPCError`s, for messages it cannot turn into a request.
+        if (!(cause instanceof FastRPCError)) console.error(cause);
+        const error =
+          cause instanceof FastRPCError
+            ? cause
+            : new FastRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Internal server error" });
+        send(socket, errorMessage(id, error));
+      }
+    } finally {
+      connection.calls.delete(id);
+    }
+  };
+
+  return {
+    open(socket: ServerSocket, req?: Request) {
+      const data = socket.data as { req?: unknown } | undefined;
+      connections.set(socket, {
+        req: req ?? (data?.req instanceof Request ? data.req : undefined),
+        calls: new Map(),
+      });
+    },
+
+    message(socket: ServerSocket, raw: unknown) {
+      const connection = connections.get(socket);
+      if (!connection) return;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(decode(raw));
+      } catch (cause) {
+        send(socket, errorMessage(null, new FastRPCError({ code: "PARSE_ERROR", message: "Invalid JSON", cause })));
+        return;
+      }
+      if (typeof parsed !== "object" || parsed === null) {
+        send(socket, errorMessage(null, new FastRPCError({ code: "BAD_REQUEST", message: "Invalid message" })));
+        return;
+      }
+      const message = parsed as WSClientMessage;
+
+      if (message.method === "subscription.stop") {
+        connection.calls.get(message.id)?.abort();
+        return;
+      }
+      if (
+        typeof message.id !== "number" ||
+        typeof message.path !== "string" ||
+        !procedureTypes.includes(message.method) ||
+        (message.headers !== undefined && !isHeaderRecord(message.headers))
+      ) {
+        send(
+          socket,
+          errorMessage(message.id ?? null, new FastRPCError({ code: "BAD_REQUEST", message: "Invalid message" }))
+        );
+        return;
+      }
+      if (connection.calls.has(message.id)) {
+        send(
+          socket,
+          errorMessage(message.id, new FastRPCError({ code: "BAD_REQUEST", message: `Duplicate id ${message.id}` }))
+        );
+        return;
+      }
+
+      void run(socket, connection, message);
+    },
+
+    close(socket: ServerSocket) {
+      const connection = connections.get(socket);
+      if (!connection) return;
+      for (const controller of connection.calls.values()) controller.abort();
+      connections.delete(socket);
+    },
+  };
+}
+
+/**
+ * Serves a router on a standard `WebSocket`-like object, such as one from the
+ * `ws` package. Returns a function that detaches the handler.
+ */
+export function applyWebSocketHandler(router: AnyRouter, socket: WebSocketLike, opts: { req?: Request } = {}) {
+  const handler = createWebSocketHandler(router);
+  let closed = false;
+
+  handler.open(socket, opts.req);
+  socket.addEventListener("message", (event) => {
+    if (!closed) handler.message(socket, event.data);
+  });
+  socket.addEventListener("close", () => {
+    closed = true;
+    handler.close(socket);
+  });
+
+  return () => {
+    closed = true;
+    handler.close(socket);
+  };
+}
+
+type PendingCall = {
+  op: Operation;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+};
+
+type WSClient = {
+  request(op: Operation): Promise<unknown>;
+  close(): void;
+};
+
+export type { WSClient };
+
+/**
+ * Opens one WebSocket (or adopts `socket`) and multiplexes operations over it
+ * by id. Messages sent before the socket opens are queued; when it closes,
+ * pending operations reject.
+ */
+export function createWSClient(opts: { url: string } | { socket: WebSocketLike }): WSClient {
+  const socket: WebSocketLike = "socket" in opts ? opts.socket : new WebSocket(opts.url);
+  const pending = new Map<number, PendingCall>();
+  const outbox: string[] = [];
+  let nextId = 1;
+
+  const send = (message: WSClientMessage) => {
+    const data = JSON.stringify(message);
+    if (socket.readyState === socketOpen) socket.send(data);
+    else outbox.push(data);
+  };
+
+  socket.addEventListener("open", () => {
+    for (const data of outbox.splice(0)) socket.send(data);
+  });
+
+  socket.addEventListener("message", (event) => {
+    const message: WSServerMessage = JSON.parse(decode(event.data));
+    const call = message.id === null ? undefined : pending.get(message.id);
+    if (!call) return;
+
+    const { op, resolve, reject } = call;
+    switch (message.type) {
+      case "started":
+        op.observer?.onStarted?.();
+        break;
+      case "data":
+        if (op.type === "subscription") {
+          op.observer?.onData?.(message.data);
+        } else {
+          pending.delete(message.id!);
+          resolve(message.data);
+        }
+        break;
+      case "complete":
+        pending.delete(message.id);
+        resolve(undefined);
+        break;
+      case "error":
+        pending.delete(message.id!);
+        reject(FastRPCClientError.fromResponseBody(message.body, { status: message.status, path: op.path }));
+        break;
+    }
+  });
+
+  socket.addEventListener("close", () => {
+    for (const { op, reject } of pending.values()) {
+      reject(new FastRPCClientError({ message: "WebSocket closed", status: 0, path: op.path }));
+    }
+    pending.clear();
+  });
+
+  return {
+    request(op) {
+      const id = nextId++;
+
+      return new Promise((resolve, reject) => {
+        if (op.signal?.aborted) {
+          resolve(undefined);
+          return;
+        }
+
+        pending.set(id, { op, resolve, reject });
+        send({ id, method: op.type, path: op.path, input: op.input, headers: op.headers });
+
+        op.signal?.addEventListener("abort", () => {
+          if (!pending.delete(id)) return;
+          send({ id, method: "subscription.stop" });
+          resolve(undefined);
+        });
+      });
+    },
+
+    close() {
+      socket.close();
+    },
+  };
+}
+
+/**
+ * Sends every operation, including subscriptions, over a shared WebSocket
+ * created with `createWSClient`.
+ */
+export function wsLink(client: WSClient): ClientLink {
+  return ({ transformer }) =>
+    async (op) => {
+      const { observer } = op;
+      const input = op.input === undefined ? undefined : transformer.serialize(op.input);
+
+      if (op.type === "subscription") {
+        return client.request({
+          ...op,
+          input,
+          observer: observer && { ...observer, onData: (data) => observer.onData?.(transformer.deserialize(data)) },
+        });
+      }
+      return transformer.deserialize(await client.request({ ...op, input }));
+    };
+}